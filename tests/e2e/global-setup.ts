@@ -1,212 +1,134 @@
-import { chromium, FullConfig } from '@playwright/test';
+import { request, FullConfig, APIRequestContext } from '@playwright/test';
 import * as fs from 'fs';
+import { clearLeases } from './helpers/accounts';
+import { users, type TestUser } from './helpers/auth';
+import { describeStack, stackProfile } from './helpers/stack';
+
+// Every account in auth.ts (named accounts and the lease pool) gets a stored session
+const accounts: TestUser[] = Object.values(users);
+
+const USER_AGENT =
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Parallel logins/session checks; low enough not to trip the login rate limit
+const CONCURRENCY = 8;
+
+function newApiContext(baseURL: string, storageState?: string): Promise<APIRequestContext> {
+  return request.newContext({
+    baseURL,
+    storageState,
+    // Origin is required for lila's CSRF check on POST
+    extraHTTPHeaders: { 'User-Agent': USER_AGENT, Origin: baseURL },
+  });
+}
 
-// 7 test account pairs for parallel test execution
-// Each pair tests different scenarios independently
-const users = [
-  // Pair 1: elena + hans (happy path: 4-game comeback 2.5-1.5)
-  { username: 'elena', password: 'password', file: '.auth/elena.json' },
-  { username: 'hans', password: 'password', file: '.auth/hans.json' },
-  // Pair 2: boris + david (ban timeout)
-  { username: 'boris', password: 'password', file: '.auth/boris.json' },
-  { username: 'david', password: 'password', file: '.auth/david.json' },
-  // Pair 3: yulia + luis (3-0 sweep)
-  { username: 'yulia', password: 'password', file: '.auth/yulia.json' },
-  { username: 'luis', password: 'password', file: '.auth/luis.json' },
-  // Pair 4: mei + ivan (pick timeout)
-  { username: 'mei', password: 'password', file: '.auth/mei.json' },
-  { username: 'ivan', password: 'password', file: '.auth/ivan.json' },
-  // Pair 5: ana + lola (sudden death 3.5-2.5)
-  { username: 'ana', password: 'password', file: '.auth/ana.json' },
-  { username: 'lola', password: 'password', file: '.auth/lola.json' },
-  // Pair 6: carlos + nina (dramatic comeback 0-2 → 3-2)
-  { username: 'carlos', password: 'password', file: '.auth/carlos.json' },
-  { username: 'nina', password: 'password', file: '.auth/nina.json' },
-  // Pair 7: oscar + petra (early win 2.5-0.5)
-  { username: 'oscar', password: 'password', file: '.auth/oscar.json' },
-  { username: 'petra', password: 'password', file: '.auth/petra.json' },
-  // Pair 8: angel + bobby (pick phase disconnect abort)
-  { username: 'angel', password: 'password', file: '.auth/angel.json' },
-  { username: 'bobby', password: 'password', file: '.auth/bobby.json' },
-  // Pair 9: marcel + vera (ban phase disconnect abort)
-  { username: 'marcel', password: 'password', file: '.auth/marcel.json' },
-  { username: 'vera', password: 'password', file: '.auth/vera.json' },
-  // Pair 10: fatima + diego (series forfeit during game)
-  { username: 'fatima', password: 'password', file: '.auth/fatima.json' },
-  { username: 'diego', password: 'password', file: '.auth/diego.json' },
-  // Pair 11: salma + benjamin (series forfeit at game start)
-  { username: 'salma', password: 'password', file: '.auth/salma.json' },
-  { username: 'benjamin', password: 'password', file: '.auth/benjamin.json' },
-  // Pair 12: patricia + adriana (finished page + rematch)
-  { username: 'patricia', password: 'password', file: '.auth/patricia.json' },
-  { username: 'adriana', password: 'password', file: '.auth/adriana.json' },
-  // Pair 13: mary + jose (countdown verification)
-  { username: 'mary', password: 'password', file: '.auth/mary.json' },
-  { username: 'jose', password: 'password', file: '.auth/jose.json' },
-  // Pair 14: iryna + pedro (countdown cancel behavior)
-  { username: 'iryna', password: 'password', file: '.auth/iryna.json' },
-  { username: 'pedro', password: 'password', file: '.auth/pedro.json' },
-  // Pair 15: aaron + jacob (disconnect during game → series forfeit)
-  { username: 'aaron', password: 'password', file: '.auth/aaron.json' },
-  { username: 'jacob', password: 'password', file: '.auth/jacob.json' },
-  // Pair 16: svetlana + qing (0-2 then disconnect in game 3 → series forfeit)
-  { username: 'svetlana', password: 'password', file: '.auth/svetlana.json' },
-  { username: 'qing', password: 'password', file: '.auth/qing.json' },
-  // Pair 17: dmitry + milena (pool exhaustion → series draw)
-  { username: 'dmitry', password: 'password', file: '.auth/dmitry.json' },
-  { username: 'milena', password: 'password', file: '.auth/milena.json' },
-  // Pair 18: yaroslava + ekaterina (resting phase - both confirm)
-  { username: 'yaroslava', password: 'password', file: '.auth/yaroslava.json' },
-  { username: 'ekaterina', password: 'password', file: '.auth/ekaterina.json' },
-  // Pair 19: margarita + yevgeny (resting phase - timeout)
-  { username: 'margarita', password: 'password', file: '.auth/margarita.json' },
-  { username: 'yevgeny', password: 'password', file: '.auth/yevgeny.json' },
-  // Pair 20: yunel + idris (NoStart - white doesn't move)
-  { username: 'yunel', password: 'password', file: '.auth/yunel.json' },
-  { username: 'idris', password: 'password', file: '.auth/idris.json' },
-  // Pair 21: aleksandr + veer (NoStart - white moves, black doesn't)
-  { username: 'aleksandr', password: 'password', file: '.auth/aleksandr.json' },
-  { username: 'veer', password: 'password', file: '.auth/veer.json' },
-  // Pair 22: ramesh + nushi (Pool customization → verify custom openings in pick phase)
-  { username: 'ramesh', password: 'password', file: '.auth/ramesh.json' },
-  { username: 'nushi', password: 'password', file: '.auth/nushi.json' },
-  // Pair 23: kwame + sonia (Selecting timeout → random pick)
-  { username: 'kwame', password: 'password', file: '.auth/kwame.json' },
-  { username: 'sonia', password: 'password', file: '.auth/sonia.json' },
-  // Pair 24: tomoko + renata (Resting both DC → series abort)
-  { username: 'tomoko', password: 'password', file: '.auth/tomoko.json' },
-  { username: 'renata', password: 'password', file: '.auth/renata.json' },
-  // Pair 25: yarah + suresh (Resting 1 DC → series forfeit)
-  { username: 'yarah', password: 'password', file: '.auth/yarah.json' },
-  { username: 'suresh', password: 'password', file: '.auth/suresh.json' },
-  // Pair 26: frances + emmanuel (Reconnection banner on home page)
-  { username: 'frances', password: 'password', file: '.auth/frances.json' },
-  { username: 'emmanuel', password: 'password', file: '.auth/emmanuel.json' },
-  // Pair 27: elizabeth + dae (Lobby matching - Opening Duel with Anyone)
-  { username: 'elizabeth', password: 'password', file: '.auth/elizabeth.json' },
-  { username: 'dae', password: 'password', file: '.auth/dae.json' },
-  // Pair 29: gabriela + guang (Mobile viewport - Finished page scroll)
-  { username: 'gabriela', password: 'password', file: '.auth/gabriela.json' },
-  { username: 'guang', password: 'password', file: '.auth/guang.json' },
-  // Solo: mateo (AI Opening Duel)
-  { username: 'mateo', password: 'password', file: '.auth/mateo.json' },
-];
-
-async function loginWithRetry(
-  baseURL: string,
-  user: { username: string; password: string; file: string },
-  maxRetries = 3
-) {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    // headless: false for debugging
-    const browser = await chromium.launch({ headless: true });
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-    });
-    const page = await context.newPage();
+function isRateLimited(status: number, body: string): boolean {
+  return status === 429 || body.includes('Too many requests');
+}
+
+// 5s, 10s, 20s, 40s... (capped at 60s) + jitter so parallel logins don't retry in lockstep
+function backoff(attempt: number): number {
+  return Math.min(60000, 5000 * 2 ** (attempt - 1)) + Math.floor(Math.random() * 1000);
+}
 
+/**
+ * Check whether `api`'s session cookie belongs to `username` (GET /api/account).
+ */
+async function isLoggedInAs(api: APIRequestContext, username: string): Promise<boolean> {
+  const res = await api.get('/api/account', { headers: { Accept: 'application/json' } });
+  if (!res.ok()) return false;
+  const account = await res.json().catch(() => null);
+  return account?.id === username.toLowerCase();
+}
+
+/**
+ * Log in by POSTing the login form (no browser) and save the session cookie
+ * as a Playwright storage state.
+ */
+async function loginWithRetry(baseURL: string, user: TestUser, maxRetries = 5) {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const api = await newApiContext(baseURL);
     try {
-      await page.goto(`${baseURL}/login`);
-      await page.waitForLoadState('networkidle');
-
-      // Check for rate limit
-      const rateLimitMsg = page.locator('text=Too many requests');
-      if (await rateLimitMsg.isVisible({ timeout: 1000 }).catch(() => false)) {
-        console.log(`Rate limited, waiting... (attempt ${attempt}/${maxRetries})`);
-        await browser.close();
-        await new Promise(resolve => setTimeout(resolve, 10000 * attempt));
+      const response = await api.post('/login', {
+        form: { username: user.username, password: user.password, remember: 'true' },
+        headers: { 'X-Requested-With': 'XMLHttpRequest' },
+        maxRedirects: 0,
+      });
+      const body = await response.text();
+
+      if (isRateLimited(response.status(), body)) {
+        const wait = backoff(attempt);
+        console.log(`Rate limited on ${user.username}, waiting ${wait}ms... (attempt ${attempt}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, wait));
         continue;
       }
 
-      await page.locator('input[name="username"]').fill(user.username);
-      await page.locator('input[name="password"]').fill(user.password);
-
-      // Click and wait for navigation
-      const [response] = await Promise.all([
-        page.waitForResponse(response => response.url().includes('/login') && response.request().method() === 'POST'),
-        page.locator('button.submit:has-text("Sign in")').first().click()
-      ]);
-      console.log(`Login response status: ${response.status()}`);
-
-      // Wait a bit for redirect
-      await page.waitForTimeout(2000);
-
-      // Check if still on login page
-      if (page.url().includes('/login')) {
-        // Check for error message
-        const errorEl = page.locator('.bad, .error');
-        if (await errorEl.first().isVisible().catch(() => false)) {
-          const errorText = await errorEl.first().textContent();
-          console.log(`Login error message: ${errorText}`);
-        }
-        throw new Error(`Login failed - still on login page. URL: ${page.url()}`);
+      if (!(await isLoggedInAs(api, user.username))) {
+        throw new Error(`Login failed for ${user.username} (status ${response.status()}): ${body.slice(0, 200)}`);
       }
 
-      // Save session
-      await context.storageState({ path: user.file });
-      await browser.close();
+      await api.storageState({ path: user.storageState });
       console.log(`✓ Logged in as ${user.username}`);
       return;
     } catch (error) {
       console.log(`Login attempt ${attempt}/${maxRetries} error:`, error);
-      await browser.close();
       if (attempt === maxRetries) throw error;
-      console.log(`Login failed, retrying... (attempt ${attempt}/${maxRetries})`);
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      await new Promise(resolve => setTimeout(resolve, backoff(attempt)));
+    } finally {
+      await api.dispose();
     }
   }
+  throw new Error(`Login failed for ${user.username}: still rate limited after ${maxRetries} attempts`);
 }
 
-async function isSessionValid(
-  baseURL: string,
-  user: { username: string; file: string }
-): Promise<boolean> {
-  if (!fs.existsSync(user.file)) return false;
+async function isSessionValid(baseURL: string, user: TestUser): Promise<boolean> {
+  if (!fs.existsSync(user.storageState)) return false;
 
-  const browser = await chromium.launch({ headless: true });
+  const api = await newApiContext(baseURL, user.storageState);
   try {
-    const context = await browser.newContext({
-      storageState: user.file,
-      userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    });
-    const page = await context.newPage();
-    await page.goto(`${baseURL}/`);
-    await page.waitForLoadState('domcontentloaded');
-
-    const isLoggedIn =
-      !page.url().includes('/login') &&
-      (await page.locator('#user_tag').isVisible({ timeout: 3000 }).catch(() => false));
-
-    await browser.close();
-    return isLoggedIn;
+    return await isLoggedInAs(api, user.username);
   } catch {
-    await browser.close();
     return false;
+  } finally {
+    await api.dispose();
   }
 }
 
-async function globalSetup(config: FullConfig) {
-  const baseURL = config.projects[0].use.baseURL || 'http://localhost:8080';
-
-  // Check if existing sessions are still valid (skip login if so)
-  if (await isSessionValid(baseURL, users[0])) {
-    // Login only users with missing session files
-    const missing = users.filter(u => !fs.existsSync(u.file));
-    if (missing.length === 0) {
-      console.log('✓ Existing sessions still valid, skipping login');
-      return;
-    }
-    console.log(`✓ Existing sessions valid, logging in ${missing.length} new user(s)...`);
-    for (const user of missing) {
-      await loginWithRetry(baseURL, user);
+// Run `fn` over `items` with at most `limit` calls in flight, preserving order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function globalSetup(config: FullConfig) {
+  const baseURL = config.projects[0]?.use.baseURL ?? stackProfile().baseURL;
+
+  console.log(`Stack: ${describeStack()}`);
+
+  // Leases from an interrupted previous run would block the pool
+  clearLeases();
+
+  const started = Date.now();
+
+  // Check every stored session, refresh only the missing/expired ones
+  const valid = await mapWithConcurrency(accounts, CONCURRENCY, user => isSessionValid(baseURL, user));
+  const expired = accounts.filter((_, i) => !valid[i]);
+  if (expired.length === 0) {
+    console.log(`✓ All ${accounts.length} sessions still valid, skipping login`);
     return;
   }
 
-  console.log('Sessions expired or missing, logging in all users...');
-  for (const user of users) {
-    await loginWithRetry(baseURL, user);
-  }
+  console.log(`${expired.length}/${accounts.length} session(s) missing or expired, logging in...`);
+  await mapWithConcurrency(expired, CONCURRENCY, user => loginWithRetry(baseURL, user));
+  console.log(`✓ Logged in ${expired.length} user(s) in ${((Date.now() - started) / 1000).toFixed(1)}s`);
 }
 
 export default globalSetup;
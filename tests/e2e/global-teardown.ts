@@ -0,0 +1,25 @@
+import { leasedThisRun } from './helpers/accounts';
+import { closeCleanupConnections, resetTestData } from './helpers/cleanup';
+
+/**
+ * Reset the series data of the accounts leased during the run (helpers/cleanup.ts).
+ * Set E2E_KEEP_DATA=1 to keep games and series for inspection.
+ */
+async function globalTeardown() {
+  if (process.env.E2E_KEEP_DATA) {
+    console.log('E2E_KEEP_DATA set, keeping test data');
+    return;
+  }
+  const users = leasedThisRun();
+  if (users.length === 0) {
+    console.log('No accounts leased, nothing to reset');
+    return;
+  }
+  try {
+    await resetTestData(users);
+  } finally {
+    await closeCleanupConnections();
+  }
+}
+
+export default globalTeardown;
@@ -0,0 +1,205 @@
+import { Page } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import { selectors, finishedSelectors, lobbySelectors, type ScreenshotFn } from './series';
+import { openingsTabSelectors } from './openings-tab';
+import { detectSurface } from './visual';
+
+/**
+ * Accessibility Audits for Opening Duel Screens
+ *
+ * Runs axe-core (WCAG 2.1 A/AA rules) in-page on each Opening Duel screen and
+ * adds a keyboard check axe does not cover: controls that only react to mouse
+ * clicks (clickable divs without a role or tabindex). Findings are grouped per
+ * screen, so the report says which flows keyboard and screen-reader users
+ * cannot complete:
+ *
+ *   const report = new A11yReport();
+ *   await report.audit(player1, 'pick');
+ *   ...
+ *   await test.info().attach('a11y-summary.md', { body: report.format(), contentType: 'text/markdown' });
+ *
+ * Audits report; they do not fail the test unless A11Y_STRICT is set (then any
+ * critical/serious violation or keyboard gap fails).
+ */
+
+export type A11yScreen = 'lobby' | 'pick' | 'ban' | 'roulette' | 'showcase' | 'openings-tab' | 'resting' | 'finished';
+
+interface ScreenSpec {
+  include: string; // region audited (the rest of the lila page is out of scope)
+  // What the user has to do here → controls that must be keyboard operable
+  flows: Record<string, string>;
+}
+
+const screens: Record<A11yScreen, ScreenSpec> = {
+  lobby: {
+    include: '.lobby__start',
+    flows: { 'start an Opening Duel': lobbySelectors.openingDuelBtn },
+  },
+  pick: {
+    include: selectors.seriesPick,
+    flows: { 'select openings': selectors.opening, 'confirm / cancel': selectors.anyConfirmBtn },
+  },
+  ban: {
+    include: selectors.seriesPick,
+    flows: { 'ban openings': selectors.opening, 'confirm / cancel': selectors.anyConfirmBtn },
+  },
+  roulette: {
+    include: selectors.randomSelecting,
+    flows: {},
+  },
+  showcase: {
+    include: selectors.randomSelecting,
+    flows: {},
+  },
+  'openings-tab': {
+    include: '.mchat',
+    flows: { 'open the Openings tab': openingsTabSelectors.openingsTab, 'switch sub-tabs': openingsTabSelectors.subTab },
+  },
+  resting: {
+    include: selectors.restingFollowUp,
+    flows: { 'confirm next game': selectors.restingConfirmBtn },
+  },
+  finished: {
+    include: finishedSelectors.container,
+    flows: { rematch: finishedSelectors.rematchBtn, 'go home': finishedSelectors.homeBtn },
+  },
+};
+
+export interface A11yViolation {
+  rule: string;
+  impact: string | null;
+  help: string;
+  targets: string[];
+}
+
+export interface KeyboardGap {
+  flow: string;
+  selector: string;
+  count: number; // matching elements not reachable/operable by keyboard
+  sample: string; // outerHTML of the first one, truncated
+}
+
+export interface A11yScreenResult {
+  screen: A11yScreen;
+  url: string;
+  violations: A11yViolation[];
+  keyboardGaps: KeyboardGap[];
+}
+
+/**
+ * Run axe on `screen` (WCAG 2.1 A/AA).
+ */
+export async function auditScreen(page: Page, screen: A11yScreen): Promise<A11yViolation[]> {
+  const results = await new AxeBuilder({ page })
+    .include(screens[screen].include)
+    .withTags(['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'])
+    .analyze();
+
+  return results.violations.map(v => ({
+    rule: v.id,
+    impact: v.impact ?? null,
+    help: v.help,
+    targets: v.nodes.map(n => n.target.join(' ')),
+  }));
+}
+
+/**
+ * Controls of each flow on `screen` that a keyboard user cannot reach or
+ * activate: not natively interactive, no interactive role, or not focusable.
+ */
+export async function findKeyboardGaps(page: Page, screen: A11yScreen): Promise<KeyboardGap[]> {
+  const gaps: KeyboardGap[] = [];
+
+  for (const [flow, selector] of Object.entries(screens[screen].flows)) {
+    const blocked = await page.locator(selector).evaluateAll(elements =>
+      elements
+        .filter(el => {
+          const native = ['A', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'SUMMARY'].includes(el.tagName);
+          const role = el.getAttribute('role');
+          const interactiveRole = ['button', 'link', 'checkbox', 'option', 'tab', 'radio', 'switch'].includes(role ?? '');
+          const focusable = (el as HTMLElement).tabIndex >= 0 && !el.hasAttribute('disabled');
+          return !(native || (interactiveRole && focusable));
+        })
+        .map(el => el.outerHTML.slice(0, 200)),
+    );
+    if (blocked.length > 0) gaps.push({ flow, selector, count: blocked.length, sample: blocked[0] });
+  }
+  return gaps;
+}
+
+// ===== Report =====
+
+export class A11yReport {
+  readonly results: A11yScreenResult[] = [];
+
+  /**
+   * Audit the screen `page` shows now (axe + keyboard gaps) and record it.
+   * Each screen is recorded once; later calls for the same screen are skipped.
+   */
+  async audit(page: Page, screen: A11yScreen): Promise<A11yScreenResult | null> {
+    if (this.has(screen)) return null;
+    console.log(`[A11yReport] Auditing ${screen} (${page.url()})`);
+
+    const result: A11yScreenResult = {
+      screen,
+      url: page.url(),
+      violations: await auditScreen(page, screen),
+      keyboardGaps: await findKeyboardGaps(page, screen),
+    };
+    this.results.push(result);
+    console.log(
+      `[A11yReport] ${screen}: ${result.violations.length} violations, ${result.keyboardGaps.length} keyboard gaps`,
+    );
+    return result;
+  }
+
+  has(screen: A11yScreen): boolean {
+    return this.results.some(r => r.screen === screen);
+  }
+
+  /** Critical/serious violations and keyboard gaps (what A11Y_STRICT fails on) */
+  blocking(): Array<{ screen: A11yScreen; issue: string }> {
+    return this.results.flatMap(r => [
+      ...r.violations
+        .filter(v => v.impact === 'critical' || v.impact === 'serious')
+        .map(v => ({ screen: r.screen, issue: `${v.rule} (${v.impact}): ${v.targets.join(', ')}` })),
+      ...r.keyboardGaps.map(g => ({ screen: r.screen, issue: `keyboard: cannot ${g.flow} (${g.count}× ${g.selector})` })),
+    ]);
+  }
+
+  /**
+   * Markdown summary: one section per screen.
+   */
+  format(): string {
+    const lines = ['## Accessibility report', ''];
+    for (const r of this.results) {
+      lines.push(`### ${r.screen}`, '');
+      if (r.violations.length === 0 && r.keyboardGaps.length === 0) {
+        lines.push('No violations.', '');
+        continue;
+      }
+      for (const g of r.keyboardGaps) {
+        lines.push(`- **keyboard**: cannot ${g.flow} - ${g.count}× \`${g.selector}\` (e.g. \`${g.sample}\`)`);
+      }
+      for (const v of r.violations) {
+        lines.push(`- **${v.rule}** (${v.impact ?? 'n/a'}): ${v.help} - ${v.targets.join(', ')}`);
+      }
+      lines.push('');
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * ScreenshotFn that also audits the first screenshot of each series screen
+ * taken on `page` (same surface detection as visual.ts).
+ */
+export function withA11yAudits(screenshot: ScreenshotFn, page: Page, report: A11yReport): ScreenshotFn {
+  return async (name, shotPage) => {
+    await screenshot(name, shotPage);
+    if (shotPage !== page) return;
+
+    const surface = await detectSurface(shotPage);
+    if (surface && !report.has(surface)) await report.audit(shotPage, surface);
+  };
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestUser, accountPool } from './auth';
+import { cleanupPairData } from './cleanup';
+import { stackDir } from './stack';
+
+/**
+ * Test Account Leasing
+ *
+ * Specs ask for "N players" instead of naming accounts. Each lease takes N
+ * accounts from `accountPool` (auth.ts) that no other test currently holds,
+ * wipes their games/series/challenges and hands back TestUsers with ready
+ * storage states (logged in by global-setup).
+ *
+ *   const lease = await leaseAccounts(2, 'Test 7');
+ *   const [p1User, p2User] = lease.users;
+ *   try { ... } finally { lease.release(); }
+ *
+ * Leases are lock files in `.auth/leases/` (per stack, see stack.ts) created
+ * with O_EXCL, so they hold across Playwright worker processes. A lock is
+ * reclaimed only once its owner process is gone - never by age, so a soak or
+ * load run may hold its accounts for hours. global-setup clears the
+ * directory before each run. Every leased account is also appended to
+ * `leased.log` there, so global-teardown resets only what this run used.
+ */
+
+export const leaseDir = path.join(stackDir('.auth'), 'leases');
+
+const POLL_INTERVAL_MS = 1000;
+
+interface LockInfo {
+  pid: number;
+  owner: string;
+  at: number;
+}
+
+export interface AccountLease {
+  users: TestUser[];
+  release(): void;
+}
+
+const leaseLog = path.join(leaseDir, 'leased.log');
+
+function lockFile(user: TestUser): string {
+  return path.join(leaseDir, `${user.username}.lock`);
+}
+
+function isStale(file: string): boolean {
+  let info: LockInfo;
+  try {
+    info = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return true; // half-written or unreadable lock
+  }
+  try {
+    process.kill(info.pid, 0);
+    return false;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+function tryLock(user: TestUser, owner: string): boolean {
+  const file = lockFile(user);
+  const info: LockInfo = { pid: process.pid, owner, at: Date.now() };
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(file, JSON.stringify(info), { flag: 'wx' });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      if (!isStale(file)) return false;
+      console.log(`[leaseAccounts] Reclaiming stale lease for ${user.username}`);
+      fs.rmSync(file, { force: true });
+    }
+  }
+  return false;
+}
+
+function unlock(user: TestUser): void {
+  const file = lockFile(user);
+  try {
+    const info: LockInfo = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (info.pid === process.pid) fs.rmSync(file, { force: true });
+  } catch {
+    // Already released or reclaimed
+  }
+}
+
+/**
+ * Lease `count` free accounts from the pool, waiting up to `timeout` for
+ * other tests to release theirs. The accounts' series data is cleaned up
+ * before they are returned.
+ */
+export async function leaseAccounts(
+  count: number,
+  owner = 'unknown',
+  { timeout = 120000 } = {},
+): Promise<AccountLease> {
+  if (count > accountPool.length) {
+    throw new Error(`[leaseAccounts] ${owner} asked for ${count} accounts, pool has ${accountPool.length}`);
+  }
+  fs.mkdirSync(leaseDir, { recursive: true });
+
+  const leased: TestUser[] = [];
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    for (const user of accountPool) {
+      if (leased.length === count) break;
+      if (tryLock(user, owner)) leased.push(user);
+    }
+    if (leased.length === count) break;
+
+    // All or nothing: never sit on a partial lease while waiting
+    leased.forEach(unlock);
+    leased.length = 0;
+    if (Date.now() > deadline) {
+      throw new Error(`[leaseAccounts] ${owner} timed out waiting for ${count} free accounts`);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  const usernames = leased.map(u => u.username);
+  console.log(`[leaseAccounts] ${owner} ← ${usernames.join(', ')}`);
+  fs.appendFileSync(leaseLog, usernames.map(u => `${u}\n`).join(''));
+  // Logs and carries on when the stack's databases cannot be reached
+  await cleanupPairData(usernames);
+
+  let released = false;
+  return {
+    users: leased,
+    release() {
+      if (released) return;
+      released = true;
+      leased.forEach(unlock);
+      console.log(`[leaseAccounts] ${owner} → released ${usernames.join(', ')}`);
+    },
+  };
+}
+
+/**
+ * Accounts leased since global-setup, each once (global-teardown).
+ */
+export function leasedThisRun(): string[] {
+  if (!fs.existsSync(leaseLog)) return [];
+  return [...new Set(fs.readFileSync(leaseLog, 'utf-8').split('\n').filter(Boolean))];
+}
+
+/**
+ * Remove every lease. Only safe while no test is running (global-setup).
+ */
+export function clearLeases(): void {
+  fs.rmSync(leaseDir, { recursive: true, force: true });
+}
@@ -1,4 +1,6 @@
 import { Page, BrowserContext, Browser } from '@playwright/test';
+import { authFile } from './stack';
+import { setTimelineLane } from './timeline';
 
 export interface TestUser {
   username: string;
@@ -10,112 +12,136 @@ export interface TestUser {
 // storageState는 global-setup에서 생성됨
 export const users = {
   // Pair 1: Happy path (pick confirm → ban confirm → game)
-  elena: { username: 'elena', password: 'password', storageState: '.auth/elena.json' },
-  hans: { username: 'hans', password: 'password', storageState: '.auth/hans.json' },
+  elena: { username: 'elena', password: 'password', storageState: authFile('elena') },
+  hans: { username: 'hans', password: 'password', storageState: authFile('hans') },
   // Pair 2: Pick OK → Ban timeout
-  boris: { username: 'boris', password: 'password', storageState: '.auth/boris.json' },
-  david: { username: 'david', password: 'password', storageState: '.auth/david.json' },
+  boris: { username: 'boris', password: 'password', storageState: authFile('boris') },
+  david: { username: 'david', password: 'password', storageState: authFile('david') },
   // Pair 3: Pick OK → Disconnect during ban
-  yulia: { username: 'yulia', password: 'password', storageState: '.auth/yulia.json' },
-  luis: { username: 'luis', password: 'password', storageState: '.auth/luis.json' },
+  yulia: { username: 'yulia', password: 'password', storageState: authFile('yulia') },
+  luis: { username: 'luis', password: 'password', storageState: authFile('luis') },
   // Pair 4: Pick timeout
-  mei: { username: 'mei', password: 'password', storageState: '.auth/mei.json' },
-  ivan: { username: 'ivan', password: 'password', storageState: '.auth/ivan.json' },
+  mei: { username: 'mei', password: 'password', storageState: authFile('mei') },
+  ivan: { username: 'ivan', password: 'password', storageState: authFile('ivan') },
   // Pair 5: Smoke tests (quick sanity checks)
-  ana: { username: 'ana', password: 'password', storageState: '.auth/ana.json' },
-  lola: { username: 'lola', password: 'password', storageState: '.auth/lola.json' },
+  ana: { username: 'ana', password: 'password', storageState: authFile('ana') },
+  lola: { username: 'lola', password: 'password', storageState: authFile('lola') },
   // Pair 6: Victory condition - 3-2 comeback
-  carlos: { username: 'carlos', password: 'password', storageState: '.auth/carlos.json' },
-  nina: { username: 'nina', password: 'password', storageState: '.auth/nina.json' },
+  carlos: { username: 'carlos', password: 'password', storageState: authFile('carlos') },
+  nina: { username: 'nina', password: 'password', storageState: authFile('nina') },
   // Pair 7: Victory condition - 2.5-0.5 early win
-  oscar: { username: 'oscar', password: 'password', storageState: '.auth/oscar.json' },
-  petra: { username: 'petra', password: 'password', storageState: '.auth/petra.json' },
+  oscar: { username: 'oscar', password: 'password', storageState: authFile('oscar') },
+  petra: { username: 'petra', password: 'password', storageState: authFile('petra') },
   // Pair 8: Pick phase disconnect abort
-  angel: { username: 'angel', password: 'password', storageState: '.auth/angel.json' },
-  bobby: { username: 'bobby', password: 'password', storageState: '.auth/bobby.json' },
+  angel: { username: 'angel', password: 'password', storageState: authFile('angel') },
+  bobby: { username: 'bobby', password: 'password', storageState: authFile('bobby') },
   // Pair 9: Ban phase disconnect abort
-  marcel: { username: 'marcel', password: 'password', storageState: '.auth/marcel.json' },
-  vera: { username: 'vera', password: 'password', storageState: '.auth/vera.json' },
+  marcel: { username: 'marcel', password: 'password', storageState: authFile('marcel') },
+  vera: { username: 'vera', password: 'password', storageState: authFile('vera') },
   // Pair 10: Series forfeit during game (with moves)
-  fatima: { username: 'fatima', password: 'password', storageState: '.auth/fatima.json' },
-  diego: { username: 'diego', password: 'password', storageState: '.auth/diego.json' },
+  fatima: { username: 'fatima', password: 'password', storageState: authFile('fatima') },
+  diego: { username: 'diego', password: 'password', storageState: authFile('diego') },
   // Pair 11: Series forfeit at game start (no moves)
-  salma: { username: 'salma', password: 'password', storageState: '.auth/salma.json' },
-  benjamin: { username: 'benjamin', password: 'password', storageState: '.auth/benjamin.json' },
+  salma: { username: 'salma', password: 'password', storageState: authFile('salma') },
+  benjamin: { username: 'benjamin', password: 'password', storageState: authFile('benjamin') },
   // Pair 12: Finished page + rematch
-  patricia: { username: 'patricia', password: 'password', storageState: '.auth/patricia.json' },
-  adriana: { username: 'adriana', password: 'password', storageState: '.auth/adriana.json' },
+  patricia: { username: 'patricia', password: 'password', storageState: authFile('patricia') },
+  adriana: { username: 'adriana', password: 'password', storageState: authFile('adriana') },
   // Pair 13: Countdown verification (pick/ban phase)
-  mary: { username: 'mary', password: 'password', storageState: '.auth/mary.json' },
-  jose: { username: 'jose', password: 'password', storageState: '.auth/jose.json' },
+  mary: { username: 'mary', password: 'password', storageState: authFile('mary') },
+  jose: { username: 'jose', password: 'password', storageState: authFile('jose') },
   // Pair 14: Countdown cancel behavior
-  iryna: { username: 'iryna', password: 'password', storageState: '.auth/iryna.json' },
-  pedro: { username: 'pedro', password: 'password', storageState: '.auth/pedro.json' },
+  iryna: { username: 'iryna', password: 'password', storageState: authFile('iryna') },
+  pedro: { username: 'pedro', password: 'password', storageState: authFile('pedro') },
   // Pair 15: Disconnect during game → series forfeit
-  aaron: { username: 'aaron', password: 'password', storageState: '.auth/aaron.json' },
-  jacob: { username: 'jacob', password: 'password', storageState: '.auth/jacob.json' },
+  aaron: { username: 'aaron', password: 'password', storageState: authFile('aaron') },
+  jacob: { username: 'jacob', password: 'password', storageState: authFile('jacob') },
   // Pair 16: Disconnect during game 3 (after 0-2 score) → series forfeit
-  svetlana: { username: 'svetlana', password: 'password', storageState: '.auth/svetlana.json' },
-  qing: { username: 'qing', password: 'password', storageState: '.auth/qing.json' },
+  svetlana: { username: 'svetlana', password: 'password', storageState: authFile('svetlana') },
+  qing: { username: 'qing', password: 'password', storageState: authFile('qing') },
   // Pair 17: Pool exhaustion → series draw
-  dmitry: { username: 'dmitry', password: 'password', storageState: '.auth/dmitry.json' },
-  milena: { username: 'milena', password: 'password', storageState: '.auth/milena.json' },
+  dmitry: { username: 'dmitry', password: 'password', storageState: authFile('dmitry') },
+  milena: { username: 'milena', password: 'password', storageState: authFile('milena') },
   // Pair 18: Resting phase - both confirm quickly
-  yaroslava: { username: 'yaroslava', password: 'password', storageState: '.auth/yaroslava.json' },
-  ekaterina: { username: 'ekaterina', password: 'password', storageState: '.auth/ekaterina.json' },
+  yaroslava: { username: 'yaroslava', password: 'password', storageState: authFile('yaroslava') },
+  ekaterina: { username: 'ekaterina', password: 'password', storageState: authFile('ekaterina') },
   // Pair 19: Resting phase - timeout (no confirm)
-  margarita: { username: 'margarita', password: 'password', storageState: '.auth/margarita.json' },
-  yevgeny: { username: 'yevgeny', password: 'password', storageState: '.auth/yevgeny.json' },
+  margarita: { username: 'margarita', password: 'password', storageState: authFile('margarita') },
+  yevgeny: { username: 'yevgeny', password: 'password', storageState: authFile('yevgeny') },
   // Pair 20: NoStart - white doesn't move
-  yunel: { username: 'yunel', password: 'password', storageState: '.auth/yunel.json' },
-  idris: { username: 'idris', password: 'password', storageState: '.auth/idris.json' },
+  yunel: { username: 'yunel', password: 'password', storageState: authFile('yunel') },
+  idris: { username: 'idris', password: 'password', storageState: authFile('idris') },
   // Pair 21: NoStart - white moves, black doesn't
-  aleksandr: { username: 'aleksandr', password: 'password', storageState: '.auth/aleksandr.json' },
-  veer: { username: 'veer', password: 'password', storageState: '.auth/veer.json' },
+  aleksandr: { username: 'aleksandr', password: 'password', storageState: authFile('aleksandr') },
+  veer: { username: 'veer', password: 'password', storageState: authFile('veer') },
   // Pair 22: Pool customization → verify custom openings in pick phase
-  ramesh: { username: 'ramesh', password: 'password', storageState: '.auth/ramesh.json' },
-  nushi: { username: 'nushi', password: 'password', storageState: '.auth/nushi.json' },
+  ramesh: { username: 'ramesh', password: 'password', storageState: authFile('ramesh') },
+  nushi: { username: 'nushi', password: 'password', storageState: authFile('nushi') },
   // Pair 23: Selecting timeout → random pick (loser doesn't select)
-  kwame: { username: 'kwame', password: 'password', storageState: '.auth/kwame.json' },
-  sonia: { username: 'sonia', password: 'password', storageState: '.auth/sonia.json' },
+  kwame: { username: 'kwame', password: 'password', storageState: authFile('kwame') },
+  sonia: { username: 'sonia', password: 'password', storageState: authFile('sonia') },
   // Pair 24: Resting both DC → series abort
-  tomoko: { username: 'tomoko', password: 'password', storageState: '.auth/tomoko.json' },
-  renata: { username: 'renata', password: 'password', storageState: '.auth/renata.json' },
+  tomoko: { username: 'tomoko', password: 'password', storageState: authFile('tomoko') },
+  renata: { username: 'renata', password: 'password', storageState: authFile('renata') },
   // Pair 25: Resting 1 DC → series forfeit
-  yarah: { username: 'yarah', password: 'password', storageState: '.auth/yarah.json' },
-  suresh: { username: 'suresh', password: 'password', storageState: '.auth/suresh.json' },
+  yarah: { username: 'yarah', password: 'password', storageState: authFile('yarah') },
+  suresh: { username: 'suresh', password: 'password', storageState: authFile('suresh') },
   // Pair 26: Reconnection banner on home page
-  frances: { username: 'frances', password: 'password', storageState: '.auth/frances.json' },
-  emmanuel: { username: 'emmanuel', password: 'password', storageState: '.auth/emmanuel.json' },
+  frances: { username: 'frances', password: 'password', storageState: authFile('frances') },
+  emmanuel: { username: 'emmanuel', password: 'password', storageState: authFile('emmanuel') },
   // Pair 27: Lobby matching (Opening Duel with Anyone)
-  elizabeth: { username: 'elizabeth', password: 'password', storageState: '.auth/elizabeth.json' },
-  dae: { username: 'dae', password: 'password', storageState: '.auth/dae.json' },
+  elizabeth: { username: 'elizabeth', password: 'password', storageState: authFile('elizabeth') },
+  dae: { username: 'dae', password: 'password', storageState: authFile('dae') },
   // Pair 29: Mobile viewport - Finished page scroll
-  gabriela: { username: 'gabriela', password: 'password', storageState: '.auth/gabriela.json' },
-  guang: { username: 'guang', password: 'password', storageState: '.auth/guang.json' },
+  gabriela: { username: 'gabriela', password: 'password', storageState: authFile('gabriela') },
+  guang: { username: 'guang', password: 'password', storageState: authFile('guang') },
+  // Pair 30: Model-based random walk
+  lucia: { username: 'lucia', password: 'password', storageState: authFile('lucia') },
+  tariq: { username: 'tariq', password: 'password', storageState: authFile('tariq') },
   // Solo: AI Opening Duel (vs Stockfish)
-  mateo: { username: 'mateo', password: 'password', storageState: '.auth/mateo.json' },
+  mateo: { username: 'mateo', password: 'password', storageState: authFile('mateo') },
 } as const;
 
 /**
- * 두 플레이어를 위한 독립적인 브라우저 컨텍스트 생성 (저장된 세션 사용)
+ * 리스 가능한 계정 풀 (helpers/accounts.ts의 leaseAccounts)
+ * 여기 있는 계정은 spec에서 이름으로 직접 사용하지 말 것 (병렬 워커 간 충돌 방지).
+ * 위 Pair 주석은 계정이 처음 추가된 용도를 나타낼 뿐, 현재는 풀에서 동적으로 할당됨.
  */
-export async function createTwoPlayerContexts(
-  browser: Browser,
-  user1: TestUser = users.elena,
-  user2: TestUser = users.hans
-): Promise<{
+export const accountPool: TestUser[] = [
+  users.hans, users.boris, users.david, users.yulia, users.luis, users.mei, users.ivan, users.ana,
+  users.lola, users.carlos, users.nina, users.oscar, users.petra, users.angel, users.bobby,
+  users.marcel, users.vera, users.fatima, users.diego, users.salma, users.benjamin, users.aaron,
+  users.jacob, users.svetlana, users.qing, users.yaroslava, users.ekaterina, users.margarita,
+  users.yevgeny, users.yunel, users.idris, users.kwame, users.sonia, users.tomoko, users.renata,
+  users.yarah, users.suresh, users.lucia, users.tariq, users.patricia, users.adriana, users.mary,
+  users.jose, users.iryna, users.pedro, users.dmitry, users.milena, users.aleksandr, users.veer,
+  users.ramesh, users.nushi, users.frances, users.emmanuel, users.elizabeth, users.dae,
+  users.gabriela, users.guang, users.mateo,
+];
+
+export interface TwoPlayerContexts {
   player1Context: BrowserContext;
   player2Context: BrowserContext;
   player1: Page;
   player2: Page;
-}> {
+}
+
+/**
+ * 두 플레이어를 위한 독립적인 브라우저 컨텍스트 생성 (저장된 세션 사용)
+ */
+export async function createTwoPlayerContexts(
+  browser: Browser,
+  user1: TestUser,
+  user2: TestUser
+): Promise<TwoPlayerContexts> {
   // 저장된 로그인 세션으로 컨텍스트 생성
   const player1Context = await browser.newContext({ storageState: user1.storageState });
   const player2Context = await browser.newContext({ storageState: user2.storageState });
 
   const player1 = await player1Context.newPage();
   const player2 = await player2Context.newPage();
+  setTimelineLane(player1, 'P1');
+  setTimelineLane(player2, 'P2');
 
   return { player1Context, player2Context, player1, player2 };
 }
@@ -126,8 +152,8 @@ export async function createTwoPlayerContexts(
 export async function loginBothPlayers(
   player1: Page,
   player2: Page,
-  _user1: TestUser = users.elena,
-  _user2: TestUser = users.hans
+  _user1: TestUser,
+  _user2: TestUser
 ): Promise<void> {
   // 세션이 이미 로드되어 있으므로 홈페이지로 이동만 하면 됨
   await Promise.all([
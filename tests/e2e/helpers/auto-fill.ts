@@ -0,0 +1,112 @@
+import { Page, expect } from '@playwright/test';
+import type { PickBanBehavior } from './scenarios';
+import { getSeriesIdFromUrl, selectors } from './series';
+import { SeriesApiClient, SeriesStatus, type PlayerIndex, type SeriesSnapshot } from './series-api';
+
+/**
+ * Pick/Ban Auto-fill Rules
+ *
+ * After a `partial-timeout` / `none-timeout` the server fills the missing
+ * picks or bans. runPickPhase / runBanPhase capture what each player did by
+ * hand before the timer ran out and, once the phase has moved on, check the
+ * result against the Series API:
+ *
+ * - manual selections are kept
+ * - picks come from the player's own pool (the cards on the pick page)
+ * - bans target the opponent's picks
+ * - no duplicates, exactly 5 picks / 2 bans per player
+ *
+ *   const selection = await captureSelection(page, 'partial-timeout');   // right after selecting
+ *   ...                                                                   // timeout → next phase
+ *   await verifyAutoFill('pick', [player1, player2], [sel1, sel2]);
+ */
+
+export const REQUIRED = { pick: 5, ban: 2 } as const;
+
+export interface TimeoutSelection {
+  seriesId: string;
+  behavior: PickBanBehavior;
+  /** Selected by hand before the timeout */
+  selected: string[];
+  /** Cards on the page: the player's pool (pick) or the opponent's picks (ban) */
+  offered: string[];
+}
+
+async function cardNames(page: Page, cardSelector: string): Promise<string[]> {
+  const names = await page.locator(`${cardSelector} ${selectors.openingName}`).allTextContents();
+  return names.map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Record a player's selection on the pick/ban page, before the phase ends.
+ */
+export async function captureSelection(page: Page, behavior: PickBanBehavior): Promise<TimeoutSelection> {
+  const seriesId = getSeriesIdFromUrl(page.url());
+  if (!seriesId) throw new Error(`[captureSelection] Not on a series page: ${page.url()}`);
+  return {
+    seriesId,
+    behavior,
+    selected: await cardNames(page, selectors.openingSelected),
+    offered: await cardNames(page, selectors.opening),
+  };
+}
+
+/**
+ * Problems with `playerIndex`'s picks or bans in a snapshot taken after the
+ * phase; an empty list means the auto-fill followed the rules.
+ */
+export function autoFillProblems(
+  phase: 'pick' | 'ban',
+  snapshot: Pick<SeriesSnapshot, 'openings'>,
+  playerIndex: PlayerIndex,
+  selection: Pick<TimeoutSelection, 'behavior' | 'selected' | 'offered'>,
+): string[] {
+  const names = (source: 'pick' | 'ban', owner: PlayerIndex) =>
+    snapshot.openings.filter(o => o.source === source && o.owner === owner).map(o => o.name);
+  const actual = names(phase, playerIndex);
+  const label = `player ${playerIndex} ${phase}s (${selection.behavior})`;
+  const problems: string[] = [];
+
+  if (actual.length !== REQUIRED[phase]) {
+    problems.push(`${label}: ${actual.length} instead of ${REQUIRED[phase]}`);
+  }
+  const repeated = [...new Set(actual.filter((name, i) => actual.indexOf(name) !== i))];
+  repeated.forEach(name => problems.push(`${label}: "${name}" more than once`));
+  selection.selected
+    .filter(name => !actual.includes(name))
+    .forEach(name => problems.push(`${label}: manual selection "${name}" was dropped`));
+
+  // Picks from the own pool, bans from the opponent's picks
+  const allowed = phase === 'pick' ? selection.offered : names('pick', playerIndex === 0 ? 1 : 0);
+  const source = phase === 'pick' ? 'own pool' : "opponent's picks";
+  actual
+    .filter(name => !allowed.includes(name))
+    .forEach(name => problems.push(`${label}: "${name}" is not in the ${source}`));
+
+  return problems;
+}
+
+/**
+ * Check both players' picks or bans once the phase is over (Series API, each
+ * player's own session for their index). Aborted series are skipped.
+ */
+export async function verifyAutoFill(
+  phase: 'pick' | 'ban',
+  pages: [Page, Page],
+  selections: [TimeoutSelection, TimeoutSelection],
+): Promise<void> {
+  const over = (s: SeriesSnapshot) => (phase === 'pick' ? s.phaseName !== 'Picking' : s.phaseName !== 'Banning');
+
+  for (const [i, page] of pages.entries()) {
+    const selection = selections[i];
+    const { snapshot } = await SeriesApiClient.for(page).poll(selection.seriesId, over, { retries: 5, intervalMs: 1000 });
+    expect(snapshot, `series ${selection.seriesId}`).not.toBeNull();
+    if (snapshot!.status === SeriesStatus.Aborted) return;
+
+    const playerIndex = snapshot!.povIndex;
+    expect(playerIndex, `P${i + 1} is a player of series ${selection.seriesId}`).not.toBeNull();
+    const problems = autoFillProblems(phase, snapshot!, playerIndex!, selection);
+    console.log(`[verifyAutoFill] P${i + 1} ${phase}s (${selection.behavior}): ${problems.length ? 'broken' : 'ok'}`);
+    expect(problems, `${phase} auto-fill of P${i + 1}, series ${selection.seriesId}`).toEqual([]);
+  }
+}
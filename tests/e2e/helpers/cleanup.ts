@@ -1,31 +1,277 @@
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
+import { MongoClient, type Db, type Document } from 'mongodb';
+import { createClient } from 'redis';
+import { mongoUri, redisUri, stackProfile } from './stack';
 
 /**
- * Clean up MongoDB data for specific user pairs.
- * Deletes games, series, and challenges involving the given usernames.
+ * Test Data Cleanup
  *
- * Called in test.beforeAll() to ensure clean state before each test,
- * regardless of whether a previous run completed successfully.
+ * Removes what series tests leave behind for a set of accounts, straight
+ * through the MongoDB and Redis drivers of the stack profile (stack.ts):
+ *
+ *   await cleanupPairData(['hans', 'boris']);   // before a test: leaseAccounts, fixtures, beforeAll
+ *   await resetTestData(leasedThisRun());        // after the run: global-teardown.ts, the accounts it leased
+ *
+ * Only documents and keys of the given accounts are touched - the dev
+ * database keeps its other users, games and settings. Lobby hooks live in
+ * lila's memory and go away with the player's socket; seeks are the
+ * persisted lobby entries. Rematch offers are challenges.
+ *
+ * Without E2E_MONGO_URI / E2E_REDIS_URI the drivers connect to the container
+ * addresses, which only Linux hosts can reach. When that fails (Docker
+ * Desktop on macOS/Windows) the same deletions run inside the containers
+ * through `docker exec mongosh` / `docker exec redis-cli`.
+ *
+ * Both return a report of what was deleted. When the stack cannot be reached,
+ * cleanupPairData logs the failure and lets the test run, while resetTestData
+ * throws CleanupError so the run reports it.
  */
-export function cleanupPairData(users: string[]): void {
+
+// ===== Types =====
+
+export interface CleanupReport {
+  users: string[];
+  /** Deleted documents per collection */
+  mongo: Record<string, number>;
+  /** Deleted Redis keys */
+  redis: number;
+  ms: number;
+  /** Why the cleanup stopped early (cleanupPairData only - resetTestData throws) */
+  error?: string;
+}
+
+export class CleanupError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(`[cleanup] ${message}${cause instanceof Error ? `: ${cause.message}` : ''}`, { cause });
+    this.name = 'CleanupError';
+  }
+}
+
+// ===== Collections =====
+
+const seriesOf = (users: string[]): Document => ({
+  $or: [{ 'p0.u': { $in: users } }, { 'p1.u': { $in: users } }],
+});
+
+/** Every collection a series test writes to, and how a document belongs to an account */
+const collections: Array<{ name: string; filter: (users: string[]) => Document }> = [
+  // Series games (and the games of series rematches)
+  { name: 'game5', filter: users => ({ us: { $in: users } }) },
+  { name: 'series', filter: seriesOf },
+  // Challenges, series rematch offers included
+  {
+    name: 'challenge',
+    filter: users => ({ $or: [{ 'challenger.id': { $in: users } }, { 'destUser.id': { $in: users } }] }),
+  },
+  { name: 'opening_pool', filter: users => ({ _id: { $in: users } }) },
+  // Lobby seeks
+  { name: 'seek', filter: users => ({ 'user.id': { $in: users } }) },
+  // "Your opponent offers a rematch", series finished, ...
+  { name: 'notify', filter: users => ({ notifies: { $in: users } }) },
+  // NoStart / abort playbans would block the next series
+  { name: 'playban', filter: users => ({ _id: { $in: users } }) },
+];
+
+/**
+ * Redis keys the series module caches per account and per series. Fixed
+ * prefixes only: a shared Redis keeps every key that merely contains a short
+ * username or id. Add the prefix here when the server caches something new.
+ */
+const redisKeys = {
+  user: (user: string) => [`series:user:${user}`],
+  series: (id: string) => [`series:${id}`, `series:${id}:*`],
+};
+
+// ===== Stores =====
+
+/** What one cleanup needs from MongoDB: delete the accounts' documents, report the series ids first */
+interface MongoStore {
+  deleteAccounts(users: string[]): Promise<{ seriesIds: string[]; deleted: Record<string, number> }>;
+  close(): Promise<void>;
+}
+
+/** What one cleanup needs from Redis: delete the keys matching `patterns` */
+interface RedisStore {
+  deleteKeys(patterns: string[]): Promise<number>;
+  close(): Promise<void>;
+}
+
+let mongo: Promise<MongoStore> | null = null;
+let redis: Promise<RedisStore> | null = null;
+
+async function mongoDriver(): Promise<MongoStore> {
+  const client = new MongoClient(mongoUri(), { serverSelectionTimeoutMS: 5000 });
+  await client.connect();
+  const db: Db = client.db(stackProfile().mongo.db);
+  return {
+    async deleteAccounts(users) {
+      // Before the series documents go: their ids find the series' Redis keys
+      const seriesIds = (await db.collection('series').find(seriesOf(users), { projection: { _id: 1 } }).toArray()).map(
+        doc => String(doc._id),
+      );
+      const deleted: Record<string, number> = {};
+      for (const { name, filter } of collections) {
+        deleted[name] = (await db.collection(name).deleteMany(filter(users))).deletedCount;
+      }
+      return { seriesIds, deleted };
+    },
+    close: () => client.close(),
+  };
+}
+
+/** Same deletions in one mongosh script inside the container */
+function mongoExec(): MongoStore {
+  const { container, db } = stackProfile().mongo;
+  return {
+    async deleteAccounts(users) {
+      const deletions = collections.map(({ name, filter }) => [name, filter(users)]);
+      const script = `
+        const seriesIds = db.series.find(${JSON.stringify(seriesOf(users))}, { _id: 1 }).toArray().map(doc => String(doc._id));
+        const deleted = {};
+        for (const [name, filter] of ${JSON.stringify(deletions)}) deleted[name] = db.getCollection(name).deleteMany(filter).deletedCount;
+        print(JSON.stringify({ seriesIds, deleted }));
+      `;
+      return JSON.parse(dockerExec(container, ['mongosh', db, '--quiet', '--eval', script]));
+    },
+    close: async () => {},
+  };
+}
+
+async function redisDriver(): Promise<RedisStore> {
+  const client = createClient({ url: redisUri(), socket: { connectTimeout: 5000, reconnectStrategy: false } });
+  client.on('error', () => {}); // surfaced by the failing command instead
+  await client.connect();
+  return {
+    async deleteKeys(patterns) {
+      const keys = new Set<string>();
+      for (const pattern of patterns) {
+        for await (const batch of client.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+          batch.forEach(key => keys.add(key));
+        }
+      }
+      return keys.size > 0 ? client.del([...keys]) : 0;
+    },
+    close: () => client.close(),
+  };
+}
+
+function redisExec(): RedisStore {
+  const { container } = stackProfile().redis;
+  return {
+    async deleteKeys(patterns) {
+      const keys = new Set<string>();
+      for (const pattern of patterns) {
+        dockerExec(container, ['redis-cli', '--scan', '--pattern', pattern])
+          .split('\n')
+          .filter(Boolean)
+          .forEach(key => keys.add(key));
+      }
+      return keys.size > 0 ? parseInt(dockerExec(container, ['redis-cli', 'DEL', ...keys]), 10) : 0;
+    },
+    close: async () => {},
+  };
+}
+
+function dockerExec(container: string, command: string[]): string {
+  return execFileSync('docker', ['exec', container, ...command], { encoding: 'utf-8', timeout: 30000 }).trim();
+}
+
+/**
+ * The driver, or `docker exec` into `container` when the driver cannot reach
+ * the container address. An explicit URI never falls back.
+ */
+function connect<T>(label: string, driver: () => Promise<T>, exec: () => T, uri: string | null, container: string): Promise<T> {
+  return driver().catch(err => {
+    if (uri) throw err;
+    console.log(`[cleanup] ${label} driver unreachable (${(err as Error).message.split('\n')[0]}), using docker exec ${container}`);
+    return exec();
+  });
+}
+
+function mongoStore(): Promise<MongoStore> {
+  const { uri, container } = stackProfile().mongo;
+  mongo ??= connect('MongoDB', mongoDriver, mongoExec, uri, container);
+  mongo.catch(() => (mongo = null));
+  return mongo;
+}
+
+function redisStore(): Promise<RedisStore> {
+  const { uri, container } = stackProfile().redis;
+  redis ??= connect('Redis', redisDriver, redisExec, uri, container);
+  redis.catch(() => (redis = null));
+  return redis;
+}
+
+/**
+ * Close the driver connections (global-teardown). Workers just exit.
+ */
+export async function closeCleanupConnections(): Promise<void> {
+  const [m, r] = [mongo, redis];
+  mongo = redis = null;
+  await Promise.allSettled([m?.then(store => store.close()), r?.then(store => store.close())]);
+}
+
+// ===== Cleanup =====
+
+/**
+ * Redis keys of the accounts and of their series (`redisKeys`).
+ */
+async function deleteRedisKeys(users: string[], seriesIds: string[]): Promise<number> {
+  const patterns = [...users.flatMap(redisKeys.user), ...seriesIds.flatMap(redisKeys.series)];
+  return (await redisStore()).deleteKeys(patterns);
+}
+
+async function cleanup(fn: string, usernames: string[]): Promise<CleanupReport> {
+  const started = Date.now();
+  const users = [...new Set(usernames.map(u => u.toLowerCase()))];
+  const report: CleanupReport = { users, mongo: {}, redis: 0, ms: 0 };
+  if (users.length === 0) return report;
+
+  try {
+    const { seriesIds, deleted } = await (await mongoStore()).deleteAccounts(users);
+    report.mongo = deleted;
+    report.redis = await deleteRedisKeys(users, seriesIds);
+  } catch (err) {
+    throw new CleanupError(`${fn}(${users.join(', ')}) failed on ${stackProfile().kind} stack`, err);
+  }
+
+  report.ms = Date.now() - started;
+  console.log(`[${fn}] ${formatCleanupReport(report)}`);
+  return report;
+}
+
+/** `hans, boris: game5 4, series 1, notify 2, redis 3 (85ms)` - collections with deletions only */
+export function formatCleanupReport(report: CleanupReport): string {
+  const counts = Object.entries(report.mongo)
+    .filter(([, n]) => n > 0)
+    .map(([name, n]) => `${name} ${n}`);
+  if (report.redis > 0) counts.push(`redis ${report.redis}`);
+  const users = report.users.length > 4 ? `${report.users.length} accounts` : report.users.join(', ');
+  return `${users}: ${counts.join(', ') || 'nothing to delete'} (${report.ms}ms)`;
+}
+
+/**
+ * Clean up the series data of specific user pairs (games, series, challenges,
+ * opening pools, seeks, notifications, playbans, Redis keys).
+ *
+ * Called in test.beforeAll() / leaseAccounts to ensure clean state before each
+ * test, regardless of whether a previous run completed successfully. A
+ * failure is logged, not thrown: it must not fail every leased test.
+ */
+export async function cleanupPairData(users: string[]): Promise<CleanupReport> {
   try {
-    const mongoCommand = `
-      db.game5.deleteMany({ "players.user.id": { $in: ${JSON.stringify(users)} } });
-      db.series.deleteMany({ $or: [
-        { "p0.u": { $in: ${JSON.stringify(users)} } },
-        { "p1.u": { $in: ${JSON.stringify(users)} } }
-      ]});
-      db.challenge.deleteMany({ $or: [
-        { "challenger.user.id": { $in: ${JSON.stringify(users)} } },
-        { "destUser.id": { $in: ${JSON.stringify(users)} } }
-      ]});
-      db.opening_pool.deleteMany({ "_id": { $in: ${JSON.stringify(users)} } });
-    `.replace(/\n/g, ' ');
-    execSync(
-      `docker exec chess-opening-duel-mongodb-1 mongosh lichess --quiet --eval '${mongoCommand}'`,
-      { encoding: 'utf-8', timeout: 10000 }
-    );
-  } catch {
-    // Ignore cleanup errors
+    return await cleanup('cleanupPairData', users);
+  } catch (err) {
+    if (!(err instanceof CleanupError)) throw err;
+    console.warn(`${err.message} - continuing without cleanup`);
+    return { users, mongo: {}, redis: 0, ms: 0, error: err.message };
   }
 }
+
+/**
+ * Clean up the accounts a run used - the global teardown, with
+ * leasedThisRun() (accounts.ts). Throws CleanupError.
+ */
+export function resetTestData(users: string[]): Promise<CleanupReport> {
+  return cleanup('resetTestData', users);
+}
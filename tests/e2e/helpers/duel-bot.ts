@@ -0,0 +1,598 @@
+import { request, APIRequestContext } from '@playwright/test';
+import { Chess } from 'chess.js';
+import * as fs from 'fs';
+import WebSocket from 'ws';
+import type { TestUser } from './auth';
+import type { PickBanBehavior } from './scenarios';
+import { computeCurrentFen, getGameState } from './series';
+import {
+  SeriesApiClient,
+  SeriesStatus,
+  playerIndexOf,
+  type PlayerIndex,
+  type SeriesPhaseName,
+  type SeriesSnapshot,
+} from './series-api';
+import { createRng, type Rng } from './series-model';
+import { stackProfile } from './stack';
+
+/**
+ * DuelBot - browserless series player
+ *
+ * Plays one side of a series over lila-ws directly, without a browser:
+ * picks, bans, confirms, selects in Selecting, confirms Resting and makes
+ * moves computed with chess.js. Each tick it reads `GET /series/{id}` and
+ * acts on the phase; socket frames only wake the loop early.
+ *
+ *   const bot = await DuelBot.connect(p2User, { resignAfterMoves: 1 });
+ *   await bot.acceptChallenge(challengeId);
+ *   await bot.join(seriesId);
+ *   const final = await bot.run();   // until Finished/Aborted
+ *   await bot.close();
+ *
+ * Socket messages are kept in `seriesProtocol` / `roundProtocol` so a server
+ * change is a one-line fix here. Test 31 checks the series messages against
+ * the frames a browser sends (`checkSeriesProtocol`).
+ */
+
+// ===== Protocol =====
+
+type Message = { t: string; d?: unknown };
+
+/**
+ * Series socket (pick page). pick, ban, confirm and rest are compared with
+ * the browser's frames in Test 31; select is not covered there (the browser
+ * side never loses a game).
+ */
+export const seriesProtocol = {
+  socketPath: (seriesId: string) => `/series/${seriesId}/socket/v5`,
+  pick: (ids: string[]): Message => ({ t: 'pick', d: { ids } }),
+  ban: (ids: string[]): Message => ({ t: 'ban', d: { ids } }),
+  confirm: (): Message => ({ t: 'confirm' }),
+  select: (id: string): Message => ({ t: 'select', d: { id } }),
+  restReady: (): Message => ({ t: 'rest', d: { ready: true } }),
+};
+
+/** Round socket (game page). Standard lila round messages. */
+export const roundProtocol = {
+  socketPath: (fullId: string) => `/play/${fullId}/v6`,
+  move: (uci: string, ack: number): Message => ({ t: 'move', d: { u: uci, a: ack } }),
+  resign: (): Message => ({ t: 'resign' }),
+  drawYes: (): Message => ({ t: 'draw-yes' }),
+};
+
+type JsonType = 'missing' | 'null' | 'array' | 'object' | 'string' | 'number' | 'boolean';
+
+function jsonType(value: unknown): JsonType {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonType;
+}
+
+/** Fields of `expected` that `actual` lacks or types differently */
+function shapeProblems(expected: unknown, actual: unknown, path: string): string[] {
+  const [want, got] = [jsonType(expected), jsonType(actual)];
+  if (want !== got) return [`${path}: bot sends ${want}, browser sent ${got}`];
+  if (want !== 'object') return [];
+  const fields = Object.entries(expected as Record<string, unknown>);
+  return fields.flatMap(([k, v]) => shapeProblems(v, (actual as Record<string, unknown>)[k], `${path}.${k}`));
+}
+
+/**
+ * Compare `seriesProtocol` with frames a browser sent on the series socket
+ * (SeriesEventTap.sent): every field the bot sends must be in the browser's
+ * frame of the same type, with the same JSON type. Returns the message types
+ * that could be compared and the mismatches.
+ */
+export function checkSeriesProtocol(sent: ReadonlyArray<{ t: string; d?: unknown }>): {
+  checked: string[];
+  problems: string[];
+} {
+  const samples = [
+    seriesProtocol.pick(['id']),
+    seriesProtocol.ban(['id']),
+    seriesProtocol.confirm(),
+    seriesProtocol.select('id'),
+    seriesProtocol.restReady(),
+  ];
+  const checked: string[] = [];
+  const problems: string[] = [];
+  for (const sample of samples) {
+    const frame = sent.find(m => m.t === sample.t);
+    if (!frame) continue;
+    checked.push(sample.t);
+    problems.push(...shapeProblems(sample.d, frame.d, `${sample.t}.d`));
+  }
+  return { checked, problems };
+}
+
+const PING_INTERVAL_MS = 2000;
+
+// Frames that mean "something changed, re-read the series now"
+const WAKE_ON = new Set(['phase', 'reload', 'redirect', 'move', 'end', 'drawOffer']);
+
+// ===== Options =====
+
+export interface DuelBotOptions {
+  baseURL?: string;
+  pick?: PickBanBehavior; // same semantics as executePickBanBehavior
+  ban?: PickBanBehavior;
+  /** Resign once the bot has made this many moves in a game (default: never) */
+  resignAfterMoves?: number;
+  /** Accept the opponent's draw offers */
+  acceptDraws?: boolean;
+  /** Click "Next Game" in Resting (false = let the 30s timeout run) */
+  confirmResting?: boolean;
+  /** Pick the opening in Selecting (false = let the timeout pick at random) */
+  selectInSelecting?: boolean;
+  /** Seed for move choice (default: first legal move, like makeAnyMove) */
+  seed?: number;
+  tickMs?: number;
+}
+
+const defaults: Required<Omit<DuelBotOptions, 'resignAfterMoves' | 'seed'>> = {
+  baseURL: stackProfile().baseURL,
+  pick: 'confirm',
+  ban: 'confirm',
+  acceptDraws: false,
+  confirmResting: true,
+  selectInSelecting: true,
+  tickMs: 1000,
+};
+
+// ===== Socket =====
+
+/**
+ * Minimal lila-ws client: session cookie auth, keep-alive pings, JSON frames.
+ * Each ping → "0" pong round trip is reported to `onRtt`.
+ */
+class BotSocket {
+  private ws: WebSocket;
+  private ping: NodeJS.Timeout;
+  private pingSentAt = 0;
+  private ack = 0;
+
+  private constructor(ws: WebSocket, onMessage: (msg: Message) => void, onRtt: (ms: number) => void) {
+    this.ws = ws;
+    ws.on('message', data => {
+      const text = data.toString();
+      if (!text.startsWith('{')) {
+        if (text === '0' && this.pingSentAt) {
+          onRtt(Date.now() - this.pingSentAt);
+          this.pingSentAt = 0;
+        }
+        return;
+      }
+      try {
+        onMessage(JSON.parse(text));
+      } catch {
+        // Ignore malformed frames
+      }
+    });
+    this.ping = setInterval(() => {
+      if (this.ws.readyState !== WebSocket.OPEN) return;
+      this.pingSentAt = Date.now();
+      this.raw('null');
+    }, PING_INTERVAL_MS);
+  }
+
+  static open(
+    url: string,
+    cookie: string,
+    origin: string,
+    onMessage: (msg: Message) => void,
+    onRtt: (ms: number) => void = () => {},
+  ): Promise<BotSocket> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, { headers: { Cookie: cookie, Origin: origin } });
+      ws.once('open', () => resolve(new BotSocket(ws, onMessage, onRtt)));
+      ws.once('error', reject);
+    });
+  }
+
+  nextAck(): number {
+    return ++this.ack;
+  }
+
+  send(msg: Message): void {
+    this.raw(JSON.stringify(msg));
+  }
+
+  private raw(text: string): void {
+    if (this.ws.readyState === WebSocket.OPEN) this.ws.send(text);
+  }
+
+  close(): void {
+    clearInterval(this.ping);
+    this.ws.close();
+  }
+}
+
+function randomSri(): string {
+  return Math.random().toString(36).slice(2, 12);
+}
+
+/**
+ * Read a page's module init data (`<script id="page-init-data">`) as JSON.
+ * Unchecked - narrow it with pickInitData / roundInitData.
+ */
+async function pageInitData(api: APIRequestContext, path: string): Promise<unknown> {
+  const response = await api.get(path);
+  if (!response.ok()) throw new Error(`[DuelBot] GET ${path} → ${response.status()}`);
+  const html = await response.text();
+  const match = html.match(/<script[^>]*id="page-init-data"[^>]*>([\s\S]*?)<\/script>/);
+  if (!match) throw new Error(`[DuelBot] No page-init-data on ${path}`);
+  return JSON.parse(match[1]);
+}
+
+type Json = Record<string, unknown>;
+
+function isJson(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The page data itself: `{ data: {...} }` or the bare object */
+function initPayload(init: unknown, path: string): Json {
+  const payload = isJson(init) && isJson(init.data) ? init.data : init;
+  if (!isJson(payload)) throw new Error(`[DuelBot] page-init-data on ${path} is not an object`);
+  return payload;
+}
+
+/** What the bot reads from the pick page: the openings it can pick, ban or select */
+interface PickInitData {
+  openings: Array<{ id: string; disabled: boolean }>;
+}
+
+function pickInitData(init: unknown, path: string): PickInitData {
+  const openings = initPayload(init, path).openings ?? [];
+  if (!Array.isArray(openings)) throw new Error(`[DuelBot] ${path}: openings is not an array`);
+  return {
+    openings: openings.filter(isJson).flatMap(o =>
+      typeof o.id === 'string' ? [{ id: o.id, disabled: o.disabled === true }] : [],
+    ),
+  };
+}
+
+/** What the bot reads from a round page: its player id and socket version, the socket path */
+interface RoundInitData {
+  playerId: string;
+  socketVersion: number;
+  socketPath: string | null;
+}
+
+function roundInitData(init: unknown, path: string): RoundInitData {
+  const data = initPayload(init, path);
+  const player = isJson(data.player) ? data.player : {};
+  const url = isJson(data.url) ? data.url : {};
+  return {
+    playerId: typeof player.id === 'string' ? player.id : '',
+    socketVersion: typeof player.version === 'number' ? player.version : 0,
+    socketPath: typeof url.socket === 'string' ? url.socket : null,
+  };
+}
+
+// ===== Bot =====
+
+/** One observed phase of the series, as seen by this bot */
+export interface PhaseRecord {
+  phase: SeriesPhaseName;
+  games: number; // games.length when entered
+  enteredAt: number; // first snapshot in this phase
+  timeLeft: number | null; // ms left on the phase timer at enteredAt
+  lastActionAt?: number; // last message this bot sent during the phase
+  endedAt?: number; // first snapshot in the next phase
+}
+
+export class DuelBot {
+  readonly log: string[] = [];
+  readonly phases: PhaseRecord[] = [];
+  readonly wsRtts: number[] = [];
+
+  private seriesId = '';
+  private seriesSocket?: BotSocket;
+  private roundSocket?: BotSocket;
+  private roundGameId = '';
+  private myIndex: PlayerIndex | null = null;
+  // Actions already taken, keyed by phase + round, so a tick never repeats one
+  private done = new Set<string>();
+  private movesThisGame = 0;
+  private lastMovePly = -1;
+  private drawOffered = false;
+  private closed = false;
+  private wake?: () => void;
+  private rng: Rng | null;
+
+  private constructor(
+    readonly user: TestUser,
+    private readonly api: APIRequestContext,
+    private readonly client: SeriesApiClient,
+    private readonly cookie: string,
+    private readonly options: Required<Omit<DuelBotOptions, 'resignAfterMoves' | 'seed'>> &
+      Pick<DuelBotOptions, 'resignAfterMoves' | 'seed'>,
+  ) {
+    this.rng = options.seed === undefined ? null : createRng(options.seed);
+  }
+
+  /**
+   * Create a bot for a test account, using its global-setup session.
+   */
+  static async connect(user: TestUser, options: DuelBotOptions = {}): Promise<DuelBot> {
+    const opts = { ...defaults, ...options };
+    const api = await request.newContext({
+      baseURL: opts.baseURL,
+      storageState: user.storageState,
+      extraHTTPHeaders: { Origin: opts.baseURL },
+    });
+    const { cookies } = JSON.parse(fs.readFileSync(user.storageState, 'utf-8')) as {
+      cookies: Array<{ name: string; value: string }>;
+    };
+    const cookie = cookies.map(c => `${c.name}=${c.value}`).join('; ');
+    return new DuelBot(user, api, new SeriesApiClient(api, opts.baseURL), cookie, opts);
+  }
+
+  private note(line: string): void {
+    this.log.push(line);
+    console.log(`[DuelBot] ${this.user.username}: ${line}`);
+  }
+
+  private socketUrl(path: string, params: Record<string, string | number> = {}): string {
+    const url = new URL(path, this.options.baseURL.replace(/^http/, 'ws'));
+    url.searchParams.set('sri', randomSri());
+    for (const [k, v] of Object.entries(params)) url.searchParams.set(k, String(v));
+    return url.toString();
+  }
+
+  private onRtt = (ms: number): void => {
+    this.wsRtts.push(ms);
+  };
+
+  private send(socket: BotSocket, msg: Message): void {
+    socket.send(msg);
+    const current = this.phases[this.phases.length - 1];
+    if (current) current.lastActionAt = Date.now();
+  }
+
+  /** Start a new PhaseRecord when the snapshot shows a different phase */
+  private track(s: SeriesSnapshot): void {
+    const current = this.phases[this.phases.length - 1];
+    if (current && current.phase === s.phaseName && current.games === s.games.length) return;
+    const now = Date.now();
+    if (current) current.endedAt = now;
+    this.phases.push({ phase: s.phaseName, games: s.games.length, enteredAt: now, timeLeft: s.timeLeft });
+  }
+
+  private onFrame = (msg: Message): void => {
+    if (msg.t === 'drawOffer') this.drawOffered = true;
+    if (WAKE_ON.has(msg.t)) this.wake?.();
+  };
+
+  /**
+   * Challenge `opponent` to an Opening Duel (same request as createSeriesViaApi).
+   * Returns the challenge id.
+   */
+  async challenge(opponent: string, timeMinutes = 5, incrementSeconds = 3): Promise<string> {
+    const response = await this.api.post(`/setup/openingDuel?user=${opponent}`, {
+      headers: { 'X-Requested-With': 'XMLHttpRequest' },
+      form: { time: String(timeMinutes), increment: String(incrementSeconds) },
+    });
+    if (!response.ok()) throw new Error(`[DuelBot] Challenge ${opponent} → ${response.status()}`);
+    const challengeId: string | undefined = (await response.json()).challenge?.id;
+    if (!challengeId) throw new Error('[DuelBot] No challenge ID in response');
+    this.note(`challenged ${opponent} (${challengeId})`);
+    return challengeId;
+  }
+
+  /**
+   * After the opponent accepted, follow the challenge page's redirect to the
+   * series pick page and return the series id.
+   */
+  async seriesOfChallenge(challengeId: string, timeout = 15000): Promise<string> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const response = await this.api.get(`/${challengeId}`);
+      const match = response.url().match(/\/series\/(\w+)/);
+      if (match) return match[1];
+      if (Date.now() > deadline) throw new Error(`[DuelBot] Challenge ${challengeId} never became a series`);
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+  }
+
+  /** Accept an Opening Duel challenge addressed to this bot */
+  async acceptChallenge(challengeId: string): Promise<void> {
+    const response = await this.api.post(`/challenge/${challengeId}/accept`, {
+      headers: { 'X-Requested-With': 'XMLHttpRequest' },
+    });
+    if (!response.ok()) throw new Error(`[DuelBot] Accept challenge ${challengeId} → ${response.status()}`);
+    this.note(`accepted challenge ${challengeId}`);
+  }
+
+  /** Open the series socket and resolve this bot's player index */
+  async join(seriesId: string): Promise<void> {
+    this.seriesId = seriesId;
+    const snapshot = await this.client.get(seriesId);
+    this.myIndex = playerIndexOf(snapshot, this.user.username);
+    if (this.myIndex === null) throw new Error(`[DuelBot] ${this.user.username} is not in series ${seriesId}`);
+    this.seriesSocket = await BotSocket.open(
+      this.socketUrl(seriesProtocol.socketPath(seriesId)),
+      this.cookie,
+      this.options.baseURL,
+      this.onFrame,
+      this.onRtt,
+    );
+    this.note(`joined series ${seriesId} as player ${this.myIndex}`);
+  }
+
+  /**
+   * Play until the series is Finished/Aborted (or `until` holds).
+   * Returns the last snapshot.
+   */
+  async run({
+    until,
+    timeout = 600000,
+  }: { until?: (s: SeriesSnapshot) => boolean; timeout?: number } = {}): Promise<SeriesSnapshot> {
+    if (!this.seriesSocket) throw new Error('[DuelBot] join() a series before run()');
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      if (this.closed) throw new Error(`[DuelBot] ${this.user.username} closed while running`);
+      const snapshot = await this.client.tryGet(this.seriesId);
+      if (snapshot) {
+        this.track(snapshot);
+        if (snapshot.status !== SeriesStatus.Started || until?.(snapshot)) return snapshot;
+        await this.act(snapshot);
+      }
+      if (Date.now() > deadline) throw new Error(`[DuelBot] ${this.user.username} timed out in series ${this.seriesId}`);
+      await this.idle(this.options.tickMs);
+    }
+  }
+
+  private idle(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.wake?.(), ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = undefined;
+        resolve();
+      };
+    });
+  }
+
+  /** Take at most one action for the current phase */
+  private async act(s: SeriesSnapshot): Promise<void> {
+    switch (s.phaseName) {
+      case 'Picking':
+        return this.once(`pick`, () => this.pickBan('pick', this.options.pick));
+      case 'Banning':
+        return this.once(`ban`, () => this.pickBan('ban', this.options.ban));
+      case 'Playing':
+        return this.play(s);
+      case 'Resting':
+        if (!this.options.confirmResting) return;
+        return this.once(`rest-${s.games.length}`, async () => {
+          this.send(this.seriesSocket!, seriesProtocol.restReady());
+          this.note(`confirmed Resting after game ${s.games.length}`);
+        });
+      case 'Selecting':
+        if (!this.options.selectInSelecting || !this.isLoserOfLastGame(s)) return;
+        return this.once(`select-${s.games.length}`, () => this.select(s));
+      default:
+        return; // RandomSelecting / Finished: nothing to do
+    }
+  }
+
+  private async once(key: string, action: () => Promise<void>): Promise<void> {
+    if (this.done.has(key)) return;
+    this.done.add(key);
+    await action();
+  }
+
+  private isLoserOfLastGame(s: SeriesSnapshot): boolean {
+    const last = s.games[s.games.length - 1];
+    if (!last || !last.result || last.result === 'draw') return false;
+    const winner = last.result === 'white' ? last.whitePlayer : ((1 - last.whitePlayer) as PlayerIndex);
+    return winner !== this.myIndex;
+  }
+
+  // ===== Pick / Ban / Select =====
+
+  /**
+   * Selectable opening ids on the pick page, in display order
+   * (the same order selectOpenings() clicks).
+   */
+  private async selectable(): Promise<string[]> {
+    const path = `/series/${this.seriesId}/pick`;
+    const { openings } = pickInitData(await pageInitData(this.api, path), path);
+    return openings.filter(o => !o.disabled).map(o => o.id);
+  }
+
+  private async pickBan(phase: 'pick' | 'ban', behavior: PickBanBehavior): Promise<void> {
+    const requiredCount = phase === 'pick' ? 5 : 2;
+    const partialCount = phase === 'pick' ? 2 : 1;
+    const count = behavior === 'confirm' || behavior === 'full-timeout'
+      ? requiredCount
+      : behavior === 'partial-timeout' ? partialCount : 0;
+
+    if (count > 0) {
+      const ids = (await this.selectable()).slice(0, count);
+      if (ids.length < count) throw new Error(`[DuelBot] Only ${ids.length} openings to ${phase}, need ${count}`);
+      this.send(this.seriesSocket!, phase === 'pick' ? seriesProtocol.pick(ids) : seriesProtocol.ban(ids));
+    }
+    if (behavior === 'confirm') this.send(this.seriesSocket!, seriesProtocol.confirm());
+    this.note(`${phase} ${behavior} (${count} selected)`);
+  }
+
+  private async select(s: SeriesSnapshot): Promise<void> {
+    const [id] = await this.selectable();
+    if (!id) throw new Error(`[DuelBot] Nothing to select after game ${s.games.length}`);
+    this.send(this.seriesSocket!, seriesProtocol.select(id));
+    this.send(this.seriesSocket!, seriesProtocol.confirm());
+    this.note(`selected ${id} for game ${s.games.length + 1}`);
+  }
+
+  // ===== Game =====
+
+  private async joinGame(gameId: string): Promise<void> {
+    this.roundSocket?.close();
+    const init = roundInitData(await pageInitData(this.api, `/${gameId}`), `/${gameId}`);
+    const path = init.socketPath ?? roundProtocol.socketPath(`${gameId}${init.playerId}`);
+    this.roundSocket = await BotSocket.open(
+      this.socketUrl(path, { v: init.socketVersion }),
+      this.cookie,
+      this.options.baseURL,
+      this.onFrame,
+      this.onRtt,
+    );
+    this.roundGameId = gameId;
+    this.movesThisGame = 0;
+    this.lastMovePly = -1;
+    this.drawOffered = false;
+    this.note(`joined game ${gameId}`);
+  }
+
+  private async play(s: SeriesSnapshot): Promise<void> {
+    const gameId = s.currentGame;
+    if (!gameId) return;
+    if (gameId !== this.roundGameId) await this.joinGame(gameId);
+
+    const state = await getGameState({ request: this.api }, gameId);
+    const chess = new Chess(computeCurrentFen(state.initialFen, state.moves));
+    if (chess.isGameOver()) return;
+
+    if (this.drawOffered && this.options.acceptDraws) {
+      this.drawOffered = false;
+      this.send(this.roundSocket!, roundProtocol.drawYes());
+      this.note(`accepted draw in game ${gameId}`);
+      return;
+    }
+
+    const myColor = state.whitePlayer === this.user.username.toLowerCase() ? 'w' : 'b';
+    if (chess.turn() !== myColor) return;
+
+    // The export API can lag behind our own move - never move twice at one ply
+    const ply = state.moves.split(' ').filter(m => m).length;
+    if (ply === this.lastMovePly) return;
+
+    if (this.options.resignAfterMoves !== undefined && this.movesThisGame >= this.options.resignAfterMoves) {
+      this.send(this.roundSocket!, roundProtocol.resign());
+      this.lastMovePly = ply;
+      this.note(`resigned game ${gameId} after ${this.movesThisGame} move(s)`);
+      return;
+    }
+
+    const moves = chess.moves({ verbose: true });
+    const move = this.rng ? moves[Math.floor(this.rng() * moves.length)] : moves[0];
+    const uci = `${move.from}${move.to}${move.promotion ?? ''}`;
+    this.send(this.roundSocket!, roundProtocol.move(uci, this.roundSocket!.nextAck()));
+    this.lastMovePly = ply;
+    this.movesThisGame++;
+    this.note(`game ${gameId} ply ${ply}: ${uci}`);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.wake?.();
+    this.seriesSocket?.close();
+    this.roundSocket?.close();
+    await this.api.dispose();
+  }
+}
@@ -0,0 +1,120 @@
+import { test as base, expect, type BrowserContext, type Page } from '@playwright/test';
+import { createTwoPlayerContexts, loginBothPlayers, type TestUser, type TwoPlayerContexts } from './auth';
+import { leaseAccounts } from './accounts';
+import { recordTimeline } from './timeline';
+import { cleanupPairData } from './cleanup';
+import { createSeriesChallenge, runPickPhase, runBanPhase, type BanPickOptions, type ScreenshotFn } from './series';
+
+/**
+ * Two-Player Series Fixtures
+ *
+ * Replaces the scaffolding every spec used to repeat (contexts, login,
+ * screenshot counter, pair cleanup, try/finally closing):
+ *
+ *   import { test, expect } from '../helpers/fixtures';
+ *
+ *   test.use({ seriesPhase: 'ban' });
+ *   test('...', async ({ duelPair, series, shoot }) => {
+ *     const { player1, player2 } = duelPair;   // logged in, on the series' Ban page
+ *     await shoot('ban-page', player1);
+ *   });
+ *
+ * - `shoot`: numbered screenshot attacher (`01-name`, `02-name`, ...)
+ * - `duelAccounts`: two accounts leased from the account pool unless
+ *   `duelUsers` pins a named pair (then that pair's data is cleaned up first)
+ * - `duelPair`: `duelAccounts` logged in, each in its own browser context
+ * - `series`: a series created via Friend Challenge and advanced to
+ *   `seriesPhase` ('pick' | 'ban' | 'game') with `seriesPickBan` behaviors
+ *
+ * Contexts are closed and leases released after the test, pass or fail.
+ */
+
+export type SeriesStartPhase = 'pick' | 'ban' | 'game';
+
+export interface DuelPair {
+  p1User: TestUser;
+  p2User: TestUser;
+  player1Context: BrowserContext;
+  player2Context: BrowserContext;
+  player1: Page;
+  player2: Page;
+}
+
+export interface SeriesFixture {
+  id: string;
+}
+
+interface DuelOptions {
+  duelUsers: [TestUser, TestUser] | null; // null = lease two accounts
+  seriesPhase: SeriesStartPhase;
+  seriesPickBan: BanPickOptions;
+}
+
+interface DuelFixtures {
+  shoot: ScreenshotFn;
+  duelAccounts: [TestUser, TestUser];
+  duelPair: DuelPair;
+  series: SeriesFixture;
+}
+
+export const test = base.extend<DuelOptions & DuelFixtures>({
+  duelUsers: [null, { option: true }],
+  seriesPhase: ['pick', { option: true }],
+  seriesPickBan: [
+    { pick: { p1: 'confirm', p2: 'confirm' }, ban: { p1: 'confirm', p2: 'confirm' } },
+    { option: true },
+  ],
+
+  shoot: async ({}, use, testInfo) => {
+    let screenshotCounter = 0;
+    await use(async (name, page) => {
+      screenshotCounter++;
+      const label = `${String(screenshotCounter).padStart(2, '0')}-${name}`;
+      recordTimeline(page, 'screenshot', label);
+      await testInfo.attach(label, {
+        body: await page.screenshot({ fullPage: true }),
+        contentType: 'image/png',
+      });
+    });
+  },
+
+  duelAccounts: async ({ duelUsers }, use, testInfo) => {
+    if (duelUsers) {
+      await cleanupPairData(duelUsers.map(u => u.username));
+      await use(duelUsers);
+      return;
+    }
+    const lease = await leaseAccounts(2, testInfo.title);
+    try {
+      await use([lease.users[0], lease.users[1]]);
+    } finally {
+      lease.release();
+    }
+  },
+
+  duelPair: async ({ browser, duelAccounts }, use) => {
+    const [p1User, p2User] = duelAccounts;
+    let contexts: TwoPlayerContexts | undefined;
+    try {
+      contexts = await createTwoPlayerContexts(browser, p1User, p2User);
+      await loginBothPlayers(contexts.player1, contexts.player2, p1User, p2User);
+      await use({ p1User, p2User, ...contexts });
+    } finally {
+      await contexts?.player1Context.close();
+      await contexts?.player2Context.close();
+    }
+  },
+
+  series: async ({ duelPair, seriesPhase, seriesPickBan, shoot }, use) => {
+    const { player1, player2, p2User } = duelPair;
+    const id = await createSeriesChallenge(player1, player2, p2User.username);
+    console.log(`[series fixture] Series ${id} created, advancing to ${seriesPhase}`);
+    await shoot('series-created', player1);
+
+    if (seriesPhase !== 'pick') await runPickPhase(player1, player2, seriesPickBan.pick, shoot);
+    if (seriesPhase === 'game') await runBanPhase(player1, player2, seriesPickBan.ban, shoot);
+    await use({ id });
+  },
+});
+
+export { expect };
@@ -0,0 +1,119 @@
+import { Page, expect } from '@playwright/test';
+import { Chess } from 'chess.js';
+import { getGameIdFromUrl, getGameState } from './series';
+import { SeriesApiClient, type PlayerIndex, type SeriesOpening, type SeriesSnapshot } from './series-api';
+
+/**
+ * Game Start Verification
+ *
+ * Checks that a series game actually starts from the opening the series
+ * chose for it - not just that *a* board appeared:
+ *
+ * - `GET /game/export/{id}` initialFen == `openings[].fen` of `games[].openingId`
+ * - no moves yet, and the side to move is the FEN's
+ * - export colours agree with the series' `games[].whitePlayer`, and each
+ *   board is oriented for its player
+ * - chooser-plays-colour: the opening's owner plays the colour from the
+ *   README pool table (default presets only - custom openings are skipped)
+ *
+ *   await verifyGameOpening(player1, player2, seriesId);   // right after the game page loads
+ */
+
+export type Colour = 'white' | 'black';
+
+/** Default preset openings → colour the chooser plays (project README "Opening Pool") */
+export const chooserColours: Record<string, Colour> = {
+  'Ruy Lopez: Marshall Attack': 'black',
+  'Italian Game: Classical Variation, Giuoco Pianissimo': 'white',
+  "Queen's Gambit Declined: Normal Defense": 'white',
+  'Catalan Opening: Open Defense, Classical Line': 'white',
+  "English Opening: King's English Variation, Two Knights Variation": 'white',
+  'Sicilian Defense: Najdorf Variation': 'black',
+  'Nimzo-Indian Defense': 'black',
+  'Benoni Defense': 'black',
+  'Caro-Kann Defense: Classical Variation': 'black',
+  'French Defense: Winawer Variation': 'black',
+};
+
+/** Default opening pool, in pick page order */
+export const PRESETS = Object.keys(chooserColours);
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/** Position part of a FEN (board, side, castling, en passant) - move counters ignored */
+export function fenPosition(fen: string): string {
+  const full = fen === 'startpos' ? START_FEN : fen;
+  return full.trim().split(/\s+/).slice(0, 4).join(' ');
+}
+
+export function sideToMove(fen: string): Colour {
+  return new Chess(fen === 'startpos' ? START_FEN : fen).turn() === 'w' ? 'white' : 'black';
+}
+
+/**
+ * The opening a series game was created from (by id, or by round for payloads without ids).
+ */
+export function openingOfGame(snapshot: SeriesSnapshot, gameId: string): SeriesOpening | null {
+  const game = snapshot.games.find(g => gameId.startsWith(g.gameId));
+  if (!game) return null;
+  return (
+    snapshot.openings.find(o => o.id !== undefined && o.id === game.openingId) ??
+    snapshot.openings.find(o => o.source === 'pick' && o.usedInRound === game.round) ??
+    null
+  );
+}
+
+/**
+ * Verify the game both players are on against the series' chosen opening.
+ */
+export async function verifyGameOpening(player1: Page, player2: Page, seriesId: string): Promise<void> {
+  const gameId = getGameIdFromUrl(player1.url());
+  if (!gameId) throw new Error(`[verifyGameOpening] Not on a game page: ${player1.url()}`);
+
+  // The game can reach the page before it reaches the series document
+  const { snapshot } = await SeriesApiClient.for(player1).poll(
+    seriesId,
+    s => s.games.some(g => gameId.startsWith(g.gameId)),
+    { retries: 10, intervalMs: 500 },
+  );
+  expect(snapshot, `series ${seriesId}`).not.toBeNull();
+  const game = snapshot!.games.find(g => gameId.startsWith(g.gameId));
+  expect(game, `game ${gameId} in series ${seriesId}`).toBeDefined();
+
+  const opening = openingOfGame(snapshot!, gameId);
+  expect(opening, `opening ${game!.openingId} of game ${gameId}`).not.toBeNull();
+
+  const state = await getGameState(player1, gameId);
+  const label = `game ${gameId} (round ${game!.round}, "${opening!.name}")`;
+  console.log(`[verifyGameOpening] ${label}: initialFen=${state.initialFen}, white=${state.whitePlayer}`);
+
+  // Position and side to move
+  expect(fenPosition(state.initialFen), `${label} initial FEN`).toBe(fenPosition(opening!.fen));
+  expect(state.moves, `${label} has no moves yet`).toBe('');
+  expect(sideToMove(state.initialFen), `${label} side to move`).toBe(sideToMove(opening!.fen));
+
+  // Colours: export ↔ series ↔ board orientation
+  const white = snapshot!.players[game!.whitePlayer].user?.id ?? ''; // '' for the AI, as in getGameState
+  const black = snapshot!.players[1 - game!.whitePlayer].user?.id ?? '';
+  expect(state.whitePlayer, `${label} white player`).toBe(white);
+  expect(state.blackPlayer, `${label} black player`).toBe(black);
+
+  for (const page of [player1, player2]) {
+    const { povIndex } = await SeriesApiClient.for(page).get(seriesId);
+    const expected: Colour = povIndex === game!.whitePlayer ? 'white' : 'black';
+    await expect(page.locator('.cg-wrap').first(), `${label} board orientation`).toHaveClass(
+      new RegExp(`orientation-${expected}`),
+      { timeout: 5000 },
+    );
+  }
+
+  // Chooser plays the opening's colour
+  const colour = chooserColours[opening!.name];
+  if (!colour) {
+    console.log(`[verifyGameOpening] ${label}: custom opening, chooser colour not checked`);
+    return;
+  }
+  const chooser: PlayerIndex = opening!.owner;
+  const expectedWhite: PlayerIndex = colour === 'white' ? chooser : chooser === 0 ? 1 : 0;
+  expect(game!.whitePlayer, `${label}: chooser (player ${chooser}) plays ${colour}`).toBe(expectedWhite);
+}
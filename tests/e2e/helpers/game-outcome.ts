@@ -0,0 +1,446 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { Chess, type Move } from 'chess.js';
+import {
+  computeCurrentFen,
+  gameSelectors,
+  getGameIdFromUrl,
+  getGameState,
+  makeAnyMove,
+  makeMoveViaUI,
+  playBothMoves,
+  type GameFullState,
+  type GameResult,
+} from './series';
+import { recordTimeline } from './timeline';
+
+/**
+ * Natural Game Endings
+ *
+ * `playOneGame` ends games by resign or agreed draw only. `playToOutcome`
+ * reaches every other end the round module produces, so series scoring,
+ * resting and Selecting see them too:
+ *
+ * | Outcome | How | Export status |
+ * |---------|-----|---------------|
+ * | `p1-checkmated` / `p2-checkmated` | cooperative chess.js search from the current position | `mate` |
+ * | `stalemate` | the side with less material is stripped and boxed in | `stalemate` |
+ * | `threefold` | both sides shuffle a piece back and forth (claimed, else fivefold) | `draw` |
+ * | `insufficient-material` | both sides trade down to bare kings | `draw` |
+ * | `p1-flagged` / `p2-flagged` | one move each, then the loser sits on their clock | `outoftime` |
+ *
+ *   await playToOutcome(player1, player2, p1User.username, p2User.username, 'p2-checkmated');
+ *
+ * The whole line is planned offline with `planOutcome()` (both sides
+ * cooperate), then replayed move by move on whichever page is to move.
+ */
+
+export type NaturalOutcome =
+  | 'p1-checkmated'
+  | 'p2-checkmated'
+  | 'stalemate'
+  | 'threefold'
+  | 'insufficient-material'
+  | 'p1-flagged'
+  | 'p2-flagged';
+
+/** Position the planner steers to (`loser` = side that is mated or stalemated) */
+export type BoardTarget = 'checkmate' | 'stalemate' | 'threefold' | 'insufficient-material';
+
+type Color = 'w' | 'b';
+
+export interface PlannedMove {
+  from: string;
+  to: string;
+  promotion?: string;
+  san: string;
+}
+
+/** Game export `status` each outcome ends with */
+export const outcomeStatus: Record<NaturalOutcome, string> = {
+  'p1-checkmated': 'mate',
+  'p2-checkmated': 'mate',
+  stalemate: 'stalemate',
+  threefold: 'draw',
+  'insufficient-material': 'draw',
+  'p1-flagged': 'outoftime',
+  'p2-flagged': 'outoftime',
+};
+
+/** Series result notation (P1's view) - `1`, `0` and `1/2` stay resign/draw */
+export const outcomeNotation: Record<NaturalOutcome, string> = {
+  'p2-checkmated': '1#',
+  'p1-checkmated': '0#',
+  'p2-flagged': '1T',
+  'p1-flagged': '0T',
+  stalemate: '1/2S',
+  threefold: '1/2R',
+  'insufficient-material': '1/2I',
+};
+
+/**
+ * Thrown when the search cannot reach the target within its ply budget
+ */
+export class OutcomePlanError extends Error {
+  constructor(
+    readonly fen: string,
+    readonly target: BoardTarget,
+    message: string,
+  ) {
+    super(`[planOutcome] ${target} from ${fen}: ${message}`);
+    this.name = 'OutcomePlanError';
+  }
+}
+
+export function isNaturalOutcome(result: string): result is NaturalOutcome {
+  return result in outcomeNotation;
+}
+
+/** The player who loses the game, null for drawn outcomes */
+export function outcomeLoser(outcome: GameResult): 'p1' | 'p2' | null {
+  if (outcome.startsWith('p1-')) return 'p1';
+  if (outcome.startsWith('p2-')) return 'p2';
+  return null;
+}
+
+/** How a game result scores, as the equivalent resign/draw (see series-referee.ts) */
+export function scoringResult(result: GameResult): 'p1-resign' | 'p2-resign' | 'draw' {
+  const loser = outcomeLoser(result);
+  return loser === null ? 'draw' : `${loser}-resign`;
+}
+
+// ===== Planner =====
+
+const VALUE: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+const MAX_PLIES = 400;
+const LOOKAHEAD_CANDIDATES = 4;
+const LOOKAHEAD_MAX_REPLIES = 8; // two-ply lookahead only once the loser is nearly boxed in
+
+const other = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+function distance(a: string, b: string): number {
+  return Math.max(Math.abs(a.charCodeAt(0) - b.charCodeAt(0)), Math.abs(a.charCodeAt(1) - b.charCodeAt(1)));
+}
+
+function cornerDistance(square: string): number {
+  return Math.min(...['a1', 'a8', 'h1', 'h8'].map(corner => distance(square, corner)));
+}
+
+function piecesOf(chess: Chess, color: Color): Array<{ square: string; type: string }> {
+  return chess
+    .board()
+    .flat()
+    .filter((p): p is NonNullable<typeof p> => p !== null && p.color === color)
+    .map(p => ({ square: p.square, type: p.type }));
+}
+
+function materialOf(chess: Chess, color: Color): number {
+  return piecesOf(chess, color).reduce((sum, p) => sum + VALUE[p.type], 0);
+}
+
+/** Run `fn` with `move` played, then take it back */
+function after<T>(chess: Chess, move: Move | string, fn: () => T): T {
+  chess.move(move);
+  try {
+    return fn();
+  } finally {
+    chess.undo();
+  }
+}
+
+/** Only queen promotions - the UI driver always picks a queen */
+function candidateMoves(chess: Chess): Move[] {
+  return chess.moves({ verbose: true }).filter(m => !m.promotion || m.promotion === 'q');
+}
+
+function someMove(chess: Chess, predicate: () => boolean): boolean {
+  return candidateMoves(chess).some(m => after(chess, m, predicate));
+}
+
+function reached(chess: Chess, target: BoardTarget, loser: Color): boolean {
+  switch (target) {
+    case 'checkmate':
+      return chess.isCheckmate() && chess.turn() === loser;
+    case 'stalemate':
+      return chess.isStalemate();
+    case 'threefold':
+      return chess.isThreefoldRepetition();
+    case 'insufficient-material':
+      return chess.isInsufficientMaterial();
+  }
+}
+
+/** Small deterministic PRNG for tie-breaks, so a plan is reproducible per position */
+function tieBreaker(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    h = Math.imul(h ^ (h >>> 15), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return ((h ^= h >>> 16) >>> 0) / 4294967296;
+  };
+}
+
+const positionKey = (chess: Chess) => chess.fen().split(' ').slice(0, 4).join(' ');
+
+/**
+ * Heuristic for cooperative play: the "stripper" collects material, the
+ * "giver" hands it over, then the giver's king is walked into the net.
+ */
+function scoreMove(chess: Chess, move: Move, target: BoardTarget, loser: Color, seen: Map<string, number>): number {
+  const mover = move.color as Color;
+  const bothStrip = target === 'insufficient-material';
+  const stripper = bothStrip || mover !== loser;
+  const giver = bothStrip || mover === loser;
+  let score = 0;
+
+  if (move.captured) score += (stripper ? 10 : -10) * VALUE[move.captured];
+  if (move.promotion) score += bothStrip ? -20 : 5;
+
+  return after(chess, move, () => {
+    // Sacrifice: put the piece where the opponent can take it
+    if (giver && move.piece !== 'k' && chess.isAttacked(move.to as never, other(mover))) {
+      score += 3 * VALUE[move.piece];
+    }
+
+    const prey = stripper ? other(mover) : mover;
+    const preyPieces = piecesOf(chess, prey).filter(p => p.type !== 'k');
+    const preyKing = piecesOf(chess, loser).find(p => p.type === 'k')!.square;
+
+    if (stripper) {
+      // Close in on material left to take, or on the loser's king once it is bare
+      const targets = preyPieces.length > 0 ? preyPieces.map(p => p.square) : bothStrip ? [] : [preyKing];
+      if (targets.length > 0) {
+        const hunters = piecesOf(chess, mover).filter(p => p.type !== 'k' || bothStrip);
+        score -= 0.3 * hunters.reduce((sum, h) => sum + Math.min(...targets.map(t => distance(h.square, t))), 0);
+      }
+    }
+
+    if (!bothStrip && preyPieces.length === 0) {
+      if (mover === loser) {
+        score -= 2 * cornerDistance(preyKing);
+      } else {
+        // Fewer king moves for the loser, without stalemating it early (mate) or checking it (stalemate)
+        score -= 2 * chess.moves().length;
+        if (target === 'stalemate' && chess.inCheck()) score -= 50;
+      }
+    }
+
+    score -= 5 * (seen.get(positionKey(chess)) ?? 0);
+    return score;
+  });
+}
+
+/** Target reachable in one more move by the side now to move */
+function oneMoveAway(chess: Chess, target: BoardTarget, loser: Color): boolean {
+  // SAN marks mate with '#' - no need to play the moves
+  if (target === 'checkmate') return chess.turn() !== loser && chess.moves().some(san => san.endsWith('#'));
+  return someMove(chess, () => reached(chess, target, loser));
+}
+
+/**
+ * Shuffle one reversible move per side back and forth until the position has
+ * occurred three times.
+ */
+function planRepetition(fen: string): PlannedMove[] {
+  const chess = new Chess(fen);
+  const reversible = (c: Chess) =>
+    c.moves({ verbose: true }).filter(m => m.piece !== 'p' && !m.captured && !m.flags.includes('k') && !m.flags.includes('q'));
+
+  for (const a of reversible(chess)) {
+    for (const b of after(chess, a, () => reversible(chess))) {
+      const cycle = [
+        [a.from, a.to],
+        [b.from, b.to],
+        [a.to, a.from],
+        [b.to, b.from],
+      ];
+      const line = new Chess(fen);
+      const moves: PlannedMove[] = [];
+      try {
+        for (let ply = 0; ply < 12 && !line.isThreefoldRepetition(); ply++) {
+          if (line.isGameOver()) break;
+          const [from, to] = cycle[ply % 4];
+          const move = line.move({ from, to });
+          moves.push({ from, to, san: move.san });
+        }
+      } catch {
+        continue; // a return move is illegal (check, pin) - try the next pair
+      }
+      if (line.isThreefoldRepetition()) return moves;
+    }
+  }
+  throw new OutcomePlanError(fen, 'threefold', 'no reversible pair of moves');
+}
+
+/**
+ * Plan a line from `fen` to the target with both sides cooperating.
+ * `loser` is the side to be mated or stalemated (ignored for draws by
+ * repetition or material). Deterministic per position.
+ */
+export function planOutcome(fen: string, target: BoardTarget, loser: Color = 'b', maxPlies = MAX_PLIES): PlannedMove[] {
+  if (target === 'threefold') return planRepetition(fen);
+
+  const chess = new Chess(fen);
+  const rng = tieBreaker(`${fen}|${target}|${loser}`);
+  const seen = new Map<string, number>([[positionKey(chess), 1]]);
+  const line: PlannedMove[] = [];
+
+  for (let ply = 0; ply < maxPlies; ply++) {
+    if (reached(chess, target, loser)) return line;
+
+    const moves = candidateMoves(chess);
+    // Never end the game any other way (mate, stalemate, repetition, 50 moves)
+    const playable = moves.filter(m => after(chess, m, () => reached(chess, target, loser) || !chess.isGameOver()));
+    if (playable.length === 0) throw new OutcomePlanError(fen, target, `stuck after ${line.map(m => m.san).join(' ')}`);
+
+    const finishing =
+      target === 'checkmate'
+        ? playable.find(m => m.color !== loser && m.san.endsWith('#'))
+        : playable.find(m => after(chess, m, () => reached(chess, target, loser)));
+    let choice: Move;
+    if (finishing) {
+      choice = finishing;
+    } else {
+      const ranked = playable
+        .map(m => ({ move: m, score: scoreMove(chess, m, target, loser, seen) + rng() }))
+        .sort((x, y) => y.score - x.score);
+      // Helpmate/-stalemate in two: a move after which some reply lets us finish
+      const setUp = ranked
+        .slice(0, LOOKAHEAD_CANDIDATES)
+        .find(({ move }) =>
+          after(chess, move, () =>
+            chess.turn() !== loser || target === 'insufficient-material'
+              ? oneMoveAway(chess, target, loser)
+              : chess.moves().length <= LOOKAHEAD_MAX_REPLIES &&
+                someMove(chess, () => !chess.isGameOver() && oneMoveAway(chess, target, loser)),
+          ),
+        );
+      choice = (setUp ?? ranked[0]).move;
+    }
+
+    chess.move(choice);
+    line.push({ from: choice.from, to: choice.to, promotion: choice.promotion, san: choice.san });
+    const key = positionKey(chess);
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  }
+
+  if (reached(chess, target, loser)) return line;
+  throw new OutcomePlanError(fen, target, `not reached in ${maxPlies} plies`);
+}
+
+// ===== UI Driver =====
+
+/** Wait until the export shows `plies` moves, i.e. the previous move has landed */
+async function waitForPly(page: Page, gameId: string, plies: number): Promise<GameFullState> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const state = await getGameState(page, gameId);
+    const played = state.moves.trim() ? state.moves.trim().split(/\s+/).length : 0;
+    if (played >= plies) return state;
+    await page.waitForTimeout(250);
+  }
+  throw new Error(`[playToOutcome] Game ${gameId} did not reach ply ${plies}`);
+}
+
+async function playLine(pages: Record<Color, Page>, gameId: string, startPly: number, line: PlannedMove[], start: Chess): Promise<void> {
+  for (let i = 0; i < line.length; i++) {
+    const move = line[i];
+    const page = pages[start.turn()];
+    await waitForPly(page, gameId, startPly + i);
+    await makeMoveViaUI(page, move.from, move.to);
+    if (move.promotion) {
+      // Promotion dialog unless the user auto-queens
+      const queen = page.locator('#promotion-choice piece.queen');
+      if (await appears(queen, 1000)) await queen.click();
+    }
+    start.move(move);
+  }
+}
+
+async function appears(locator: Locator, timeout: number): Promise<boolean> {
+  return locator.waitFor({ state: 'visible', timeout }).then(
+    () => true,
+    () => false,
+  );
+}
+
+/** Seconds on the clock at the bottom of the page (own clock), e.g. "04:58" or "0:09.3" */
+async function ownClockSeconds(page: Page): Promise<number> {
+  const text = (await page.locator('.rclock-bottom .time').first().textContent()) ?? '';
+  const match = text.replace(/\s+/g, '').match(/(\d+):(\d+)(?:[.,](\d))?/);
+  if (!match) throw new Error(`[playToOutcome] Cannot read clock "${text}"`);
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + (match[3] ? parseInt(match[3], 10) / 10 : 0);
+}
+
+/**
+ * Play the current game of both pages to a natural end.
+ *
+ * @returns The game ID of the finished game
+ */
+export async function playToOutcome(
+  player1: Page,
+  player2: Page,
+  p1Username: string,
+  p2Username: string,
+  outcome: NaturalOutcome,
+): Promise<string> {
+  await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+  await expect(player2.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+
+  const gameId = getGameIdFromUrl(player1.url());
+  if (!gameId) throw new Error(`[playToOutcome] Not on a game page: ${player1.url()}`);
+  if (getGameIdFromUrl(player2.url()) !== gameId) {
+    await player2.waitForURL(url => url.pathname.includes(gameId), { timeout: 10000 });
+  }
+
+  const state = await getGameState(player1, gameId);
+  const p1Colour: Color = state.whitePlayer === p1Username.toLowerCase() ? 'w' : 'b';
+  const pages: Record<Color, Page> = p1Colour === 'w' ? { w: player1, b: player2 } : { w: player2, b: player1 };
+  const loser = outcomeLoser(outcome);
+  const loserColour: Color | null = loser === null ? null : loser === 'p1' ? p1Colour : other(p1Colour);
+  console.log(`[playToOutcome] gameId=${gameId}, outcome=${outcome}, p1=${p1Username}, p2=${p2Username}, white=${state.whitePlayer}`);
+
+  if (outcome === 'p1-flagged' || outcome === 'p2-flagged') {
+    await playBothMoves(player1, player2, p1Username, p2Username);
+    const played = await waitForPly(player1, gameId, 2);
+    const board = new Chess(computeCurrentFen(played.initialFen, played.moves));
+    // The clock only runs for the side to move
+    if (board.turn() !== loserColour) await makeAnyMove(pages[other(loserColour!)]);
+
+    const seconds = await ownClockSeconds(pages[loserColour!]);
+    console.log(`[playToOutcome] ${loser} has ${seconds}s left, waiting for the flag`);
+    recordTimeline(pages[loserColour!], 'note', `sitting on the clock (${Math.ceil(seconds)}s)`);
+    await expect(player1.locator(gameSelectors.gameOverlay)).toBeVisible({ timeout: seconds * 1000 + 30000 });
+  } else {
+    const current = computeCurrentFen(state.initialFen, state.moves);
+    const plies = state.moves.trim() ? state.moves.trim().split(/\s+/).length : 0;
+    const target: BoardTarget =
+      outcome === 'p1-checkmated' || outcome === 'p2-checkmated' ? 'checkmate' : outcome;
+
+    // Stalemate the side that has less to lose
+    const board = new Chess(current);
+    const boxed: Color = loserColour ?? (materialOf(board, 'w') <= materialOf(board, 'b') ? 'w' : 'b');
+    const line = planOutcome(current, target, boxed);
+    console.log(`[playToOutcome] ${line.length} plies: ${line.map(m => m.san).join(' ')}`);
+
+    await playLine(pages, gameId, plies, line, board);
+
+    if (target === 'threefold' && !(await appears(player1.locator(gameSelectors.gameOverlay), 3000))) {
+      // Claimable, not automatic: claim it, else repeat up to fivefold (automatic)
+      const claim = pages[board.turn()].locator('.suggestion button').first();
+      if (await appears(claim, 2000)) {
+        await claim.click();
+      } else {
+        await playLine(pages, gameId, plies + line.length, [...line.slice(-4), ...line.slice(-4)], board);
+      }
+    }
+    await expect(player1.locator(gameSelectors.gameOverlay)).toBeVisible({ timeout: 10000 });
+  }
+
+  const final = await getGameState(player1, gameId);
+  expect(final.status, `game ${gameId} (${outcome}) status`).toBe(outcomeStatus[outcome]);
+  if (loserColour !== null) {
+    expect(final.winner, `game ${gameId} (${outcome}) winner`).toBe(loserColour === 'w' ? 'black' : 'white');
+  }
+  recordTimeline(player1, 'game-end', `${outcome} ${gameId}`);
+  return gameId;
+}
@@ -0,0 +1,160 @@
+import { Page, expect } from '@playwright/test';
+import type { PickBanBehavior } from './scenarios';
+import { selectors, waitForSnabbdomReady, getSelectedCount } from './series';
+import { recordTimeline } from './timeline';
+
+/**
+ * Keyboard-only Pick/Ban Helpers
+ *
+ * Drive the pick/ban page the way a keyboard or screen-reader user does:
+ *
+ * - Tab into the opening grid, arrow keys move between cards
+ * - Space toggles the focused card
+ * - Enter confirms, Escape cancels (also during the 3s countdown)
+ * - `.series-pick__opponent-status` and the countdown text are live regions
+ *
+ * Nothing here clicks. `trackPointerInput` counts real mouse/touch presses so a
+ * spec can prove a flow was completed without one.
+ */
+
+declare global {
+  interface Window {
+    __pointerInputs?: number;
+  }
+}
+
+// Upper bound on Tab presses from the top of the page to the grid
+const MAX_TABS = 60;
+
+/**
+ * Count trusted pointer presses on `page` from now on (survives navigation).
+ * Keyboard activation of a button fires `click` but never `pointerdown`.
+ */
+export async function trackPointerInput(page: Page): Promise<void> {
+  const install = () => {
+    window.__pointerInputs = 0;
+    for (const type of ['pointerdown', 'mousedown', 'touchstart']) {
+      window.addEventListener(type, e => {
+        if (e.isTrusted) window.__pointerInputs = (window.__pointerInputs ?? 0) + 1;
+      }, true);
+    }
+  };
+  await page.addInitScript(install);
+  await page.evaluate(install);
+}
+
+/** Pointer presses since the current document loaded */
+export async function pointerInputCount(page: Page): Promise<number> {
+  return page.evaluate(() => window.__pointerInputs ?? 0);
+}
+
+async function focusedOpening(page: Page): Promise<{ index: number; selected: boolean; disabled: boolean } | null> {
+  return page.evaluate(selector => {
+    const cards = Array.from(document.querySelectorAll(selector));
+    const index = cards.indexOf(document.activeElement as Element);
+    if (index < 0) return null;
+    const card = cards[index];
+    return {
+      index,
+      selected: card.classList.contains('selected'),
+      disabled: card.classList.contains('disabled') || card.getAttribute('aria-disabled') === 'true',
+    };
+  }, selectors.opening);
+}
+
+/**
+ * Tab until an opening card has focus.
+ */
+export async function focusOpeningGrid(page: Page): Promise<void> {
+  await waitForSnabbdomReady(page);
+  if (await focusedOpening(page)) return;
+
+  for (let i = 0; i < MAX_TABS; i++) {
+    await page.keyboard.press('Tab');
+    if (await focusedOpening(page)) return;
+  }
+  throw new Error(`[focusOpeningGrid] No opening card reachable within ${MAX_TABS} Tab presses`);
+}
+
+/**
+ * Select `count` openings with Space, moving through the grid with ArrowRight
+ * (wraps to the next row). Cards already selected or disabled are skipped.
+ */
+export async function selectOpeningsByKeyboard(page: Page, count: number): Promise<void> {
+  await focusOpeningGrid(page);
+  const total = await page.locator(selectors.opening).count();
+  const before = await getSelectedCount(page);
+
+  for (let moves = 0; moves < total && (await getSelectedCount(page)) - before < count; moves++) {
+    const card = await focusedOpening(page);
+    if (!card) throw new Error('[selectOpeningsByKeyboard] Focus left the opening grid');
+
+    if (!card.selected && !card.disabled) {
+      await page.keyboard.press('Space');
+      await expect(page.locator(selectors.opening).nth(card.index)).toHaveClass(/selected/, { timeout: 2000 });
+    }
+    await page.keyboard.press('ArrowRight');
+  }
+
+  const selected = (await getSelectedCount(page)) - before;
+  if (selected < count) {
+    throw new Error(`[selectOpeningsByKeyboard] Selected ${selected}/${count} after walking the whole grid`);
+  }
+}
+
+/**
+ * Enter confirms the current selection (focus stays in the grid).
+ */
+export async function confirmByKeyboard(page: Page): Promise<void> {
+  await focusOpeningGrid(page);
+  await page.keyboard.press('Enter');
+  await expect(page.locator(selectors.cancelBtn)).toBeVisible({ timeout: 5000 });
+  recordTimeline(page, 'confirm', 'keyboard');
+}
+
+/**
+ * Escape withdraws the confirmation (works during the countdown).
+ */
+export async function cancelByKeyboard(page: Page): Promise<void> {
+  await page.keyboard.press('Escape');
+  await expect(page.locator(selectors.anyConfirmBtn)).toBeVisible({ timeout: 5000 });
+  recordTimeline(page, 'cancel', 'keyboard');
+}
+
+/**
+ * Keyboard twin of executePickBanBehavior (series.ts).
+ */
+export async function executePickBanBehaviorByKeyboard(
+  page: Page,
+  behavior: PickBanBehavior,
+  phase: 'pick' | 'ban'
+): Promise<void> {
+  const requiredCount = phase === 'pick' ? 5 : 2;
+  const partialCount = phase === 'pick' ? 2 : 1;
+
+  switch (behavior) {
+    case 'confirm':
+      await selectOpeningsByKeyboard(page, requiredCount);
+      await confirmByKeyboard(page);
+      break;
+    case 'full-timeout':
+      await selectOpeningsByKeyboard(page, requiredCount);
+      break;
+    case 'partial-timeout':
+      await selectOpeningsByKeyboard(page, partialCount);
+      break;
+    case 'none-timeout':
+      break;
+  }
+}
+
+/**
+ * Opponent status is always a live region; the countdown text is one while shown.
+ */
+export async function expectPickLiveRegions(page: Page): Promise<void> {
+  await expect(page.locator(selectors.opponentStatus)).toHaveAttribute('aria-live', /polite|assertive/);
+  const countdown = page.locator(selectors.countdownText);
+  if (await countdown.isVisible().catch(() => false)) {
+    await expect(countdown).toHaveAttribute('aria-live', /polite|assertive/);
+  }
+}
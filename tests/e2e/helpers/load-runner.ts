@@ -0,0 +1,245 @@
+import type { TestUser } from './auth';
+import { DuelBot, type DuelBotOptions, type PhaseRecord } from './duel-bot';
+import { SeriesStatus } from './series-api';
+
+/**
+ * Load / Soak Runner
+ *
+ * Runs N concurrent Opening Duel series between DuelBot pairs (no browsers)
+ * and measures how the lila + lila-ws stack holds up:
+ *
+ * - Transition latency: last action that completes a phase (both confirmed,
+ *   resign, select) → first snapshot in the next phase
+ * - Timer drift: for phases that ran out their timer, observed end minus
+ *   the end predicted from `timeLeft` (positive = server late)
+ * - WS round trip: lila-ws ping → pong
+ * - Finished / aborted / failed series
+ *
+ * With `timers: true` every phase is left to its server timer (no confirms,
+ * no Resting clicks, no selection), so each phase yields a drift sample.
+ * With `soakMs`, each slot keeps starting new series until the time is up.
+ *
+ * Measurements come from snapshot polling woken by socket frames, so they
+ * resolve to roughly one request round trip, not to the millisecond.
+ */
+
+export interface LoadOptions {
+  series: number; // concurrent series (needs 2 accounts each)
+  timers?: boolean; // let every phase run out its timer (drift samples)
+  soakMs?: number; // keep each slot busy for this long (0 = one series per slot)
+  staggerMs?: number; // delay between slot starts
+  seriesTimeout?: number;
+  baseURL?: string;
+}
+
+export interface Stats {
+  count: number;
+  min: number;
+  p50: number;
+  p95: number;
+  max: number;
+  mean: number;
+}
+
+export interface SeriesRun {
+  slot: number;
+  seriesId: string | null;
+  players: [string, string];
+  outcome: 'finished' | 'aborted' | 'failed';
+  error?: string;
+  durationMs: number;
+  phases: [PhaseRecord[], PhaseRecord[]];
+}
+
+export interface LoadReport {
+  options: LoadOptions;
+  startedAt: string;
+  durationMs: number;
+  totals: { series: number; finished: number; aborted: number; failed: number };
+  transitionLatencyMs: Record<string, Stats>; // by phase name + 'all'
+  timerDriftMs: Record<string, Stats>;
+  wsRttMs: Stats;
+  runs: SeriesRun[];
+}
+
+// ===== Statistics =====
+
+export function stats(samples: number[]): Stats {
+  if (samples.length === 0) return { count: 0, min: 0, p50: 0, p95: 0, max: 0, mean: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    p50: at(0.5),
+    p95: at(0.95),
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, x) => sum + x, 0) / sorted.length),
+  };
+}
+
+function groupStats(samples: Array<[string, number]>): Record<string, Stats> {
+  const byPhase: Record<string, number[]> = { all: [] };
+  for (const [phase, ms] of samples) {
+    (byPhase[phase] ??= []).push(ms);
+    byPhase.all.push(ms);
+  }
+  return Object.fromEntries(Object.entries(byPhase).map(([phase, xs]) => [phase, stats(xs)]));
+}
+
+/**
+ * Pair up both bots' records of the same phase (phase + games) and derive
+ * latency / drift samples.
+ */
+export function phaseSamples(run: SeriesRun): { latency: Array<[string, number]>; drift: Array<[string, number]> } {
+  const latency: Array<[string, number]> = [];
+  const drift: Array<[string, number]> = [];
+  const [a, b] = run.phases;
+
+  for (const ra of a) {
+    const rb = b.find(r => r.phase === ra.phase && r.games === ra.games);
+    const ends = [ra.endedAt, rb?.endedAt].filter((x): x is number => x !== undefined);
+    if (ends.length === 0) continue;
+    const endedAt = Math.min(...ends);
+    const actions = [ra.lastActionAt, rb?.lastActionAt].filter((x): x is number => x !== undefined);
+
+    if (actions.length > 0) {
+      latency.push([ra.phase, endedAt - Math.max(...actions)]);
+    } else if (ra.timeLeft !== null) {
+      // Nobody acted → the timer ended the phase
+      const predicted = [ra, rb].flatMap(r => (r && r.timeLeft !== null ? [r.enteredAt + r.timeLeft] : []));
+      drift.push([ra.phase, endedAt - Math.min(...predicted)]);
+    }
+  }
+  return { latency, drift };
+}
+
+// ===== Runner =====
+
+async function runOneSeries(
+  slot: number,
+  [u1, u2]: [TestUser, TestUser],
+  options: LoadOptions,
+): Promise<{ run: SeriesRun; rtts: number[] }> {
+  const botOptions: DuelBotOptions = options.timers
+    ? { pick: 'none-timeout', ban: 'none-timeout', confirmResting: false, selectInSelecting: false, resignAfterMoves: 1 }
+    : { resignAfterMoves: 1 };
+  if (options.baseURL) botOptions.baseURL = options.baseURL;
+
+  const started = Date.now();
+  const bots: DuelBot[] = [];
+  const run: SeriesRun = {
+    slot,
+    seriesId: null,
+    players: [u1.username, u2.username],
+    outcome: 'failed',
+    durationMs: 0,
+    phases: [[], []],
+  };
+
+  try {
+    const challenger = await DuelBot.connect(u1, botOptions);
+    bots.push(challenger);
+    const opponent = await DuelBot.connect(u2, botOptions);
+    bots.push(opponent);
+
+    const challengeId = await challenger.challenge(u2.username);
+    await opponent.acceptChallenge(challengeId);
+    run.seriesId = await challenger.seriesOfChallenge(challengeId);
+    await Promise.all([challenger.join(run.seriesId), opponent.join(run.seriesId)]);
+
+    const timeout = options.seriesTimeout ?? 900000;
+    const [final] = await Promise.all([challenger.run({ timeout }), opponent.run({ timeout })]);
+    run.outcome = final.status === SeriesStatus.Aborted ? 'aborted' : 'finished';
+  } catch (err) {
+    run.error = err instanceof Error ? err.message : String(err);
+    console.log(`[runLoad] slot ${slot} series ${run.seriesId} failed: ${run.error}`);
+  } finally {
+    run.durationMs = Date.now() - started;
+    if (bots[0]) run.phases[0] = bots[0].phases;
+    if (bots[1]) run.phases[1] = bots[1].phases;
+    await Promise.all(bots.map(bot => bot.close()));
+  }
+  return { run, rtts: bots.flatMap(bot => bot.wsRtts) };
+}
+
+/**
+ * Run `options.series` concurrent series between consecutive pairs of `users`
+ * (users[0] vs users[1], users[2] vs users[3], ...) and summarise.
+ */
+export async function runLoad(users: TestUser[], options: LoadOptions): Promise<LoadReport> {
+  if (users.length < options.series * 2) {
+    throw new Error(`[runLoad] ${options.series} series need ${options.series * 2} accounts, got ${users.length}`);
+  }
+  const started = Date.now();
+  const soakUntil = started + (options.soakMs ?? 0);
+  const runs: SeriesRun[] = [];
+  const rtts: number[] = [];
+
+  const slot = async (i: number) => {
+    await new Promise(resolve => setTimeout(resolve, i * (options.staggerMs ?? 500)));
+    const pair: [TestUser, TestUser] = [users[2 * i], users[2 * i + 1]];
+    do {
+      const { run, rtts: runRtts } = await runOneSeries(i, pair, options);
+      runs.push(run);
+      rtts.push(...runRtts);
+      console.log(`[runLoad] slot ${i}: ${run.outcome} in ${(run.durationMs / 1000).toFixed(1)}s`);
+    } while (Date.now() < soakUntil);
+  };
+  await Promise.all(Array.from({ length: options.series }, (_, i) => slot(i)));
+
+  const latency = runs.flatMap(run => phaseSamples(run).latency);
+  const drift = runs.flatMap(run => phaseSamples(run).drift);
+  return {
+    options,
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    totals: {
+      series: runs.length,
+      finished: runs.filter(r => r.outcome === 'finished').length,
+      aborted: runs.filter(r => r.outcome === 'aborted').length,
+      failed: runs.filter(r => r.outcome === 'failed').length,
+    },
+    transitionLatencyMs: groupStats(latency),
+    timerDriftMs: groupStats(drift),
+    wsRttMs: stats(rtts),
+    runs,
+  };
+}
+
+// ===== Report =====
+
+function statsRow(label: string, s: Stats): string {
+  return `| ${label} | ${s.count} | ${s.min} | ${s.p50} | ${s.p95} | ${s.max} | ${s.mean} |`;
+}
+
+/**
+ * Markdown summary of a load report (attach next to the JSON).
+ */
+export function formatLoadReport(report: LoadReport): string {
+  const { totals, options } = report;
+  const header = ['| | n | min | p50 | p95 | max | mean |', '|:---|---:|---:|---:|---:|---:|---:|'];
+  const section = (title: string, rows: Record<string, Stats>) => [
+    `### ${title}`,
+    ...header,
+    ...Object.entries(rows).map(([phase, s]) => statsRow(phase, s)),
+    '',
+  ];
+
+  return [
+    `## Load report (${report.startedAt})`,
+    '',
+    `- Concurrent series: ${options.series}${options.soakMs ? `, soak ${Math.round(options.soakMs / 1000)}s` : ''}` +
+      `${options.timers ? ', timer-driven phases' : ''}`,
+    `- Duration: ${(report.durationMs / 1000).toFixed(1)}s`,
+    `- Series: ${totals.series} (finished ${totals.finished}, aborted ${totals.aborted}, failed ${totals.failed})`,
+    '',
+    ...section('Phase transition latency (ms)', report.transitionLatencyMs),
+    ...section('Timer drift (ms, + = late)', report.timerDriftMs),
+    '### WS round trip (ms)',
+    ...header,
+    statsRow('ping', report.wsRttMs),
+    '',
+    ...report.runs.filter(r => r.error).map(r => `- slot ${r.slot} (${r.players.join(' vs ')}): ${r.error}`),
+  ].join('\n');
+}
@@ -0,0 +1,168 @@
+import { BrowserContext, Page } from '@playwright/test';
+
+/**
+ * Network Fault Injection
+ *
+ * Realistic connection trouble for one player, as opposed to closing the page
+ * (which is a clean disconnect the server sees immediately):
+ *
+ * - Outage: `context.setOffline(true)` plus a WebSocket black hole for a few
+ *   seconds, then back online. Keep it shorter than the server's abort/forfeit
+ *   grace period to model a blip.
+ * - Latency / bandwidth: Chromium's CDP `Network.emulateNetworkConditions`
+ *   for HTTP, plus a per-frame delay on the WebSockets (CDP throttling does not
+ *   apply to WebSocket frames).
+ * - Flaky socket: drop a fraction of WebSocket frames in both directions.
+ *
+ * WebSocket faults route every socket of the context through Playwright
+ * (`context.routeWebSocket`), so attach BEFORE the navigation that opens the
+ * socket:
+ *
+ *   const faults = await NetworkFaults.attach(player2Context, 'P2');
+ *   await player2.goto(`/series/${seriesId}/pick`);
+ *   await faults.outage(player2, 3000);
+ *   const restore = await faults.throttle(player2, { latencyMs: 1500 });
+ *   ...
+ *   await restore();
+ */
+
+export interface ThrottleOptions {
+  latencyMs: number; // added to every request and WebSocket frame
+  downloadKbps?: number; // default: unlimited
+  uploadKbps?: number;
+}
+
+export interface WsFaultOptions {
+  dropRate?: number; // 0..1, fraction of frames silently dropped
+  delayMs?: number; // added before a frame is forwarded
+  blackhole?: boolean; // drop everything (outage)
+}
+
+const faults = new WeakMap<BrowserContext, NetworkFaults>();
+
+export class NetworkFaults {
+  /** Frames forwarded / dropped since attach, both directions */
+  readonly counters = { forwarded: 0, dropped: 0 };
+  private ws: Required<WsFaultOptions> = { dropRate: 0, delayMs: 0, blackhole: false };
+
+  private constructor(
+    private readonly context: BrowserContext,
+    readonly label: string,
+  ) {}
+
+  /**
+   * Route every WebSocket of the context through the fault injector.
+   * Idempotent: returns the existing injector if already attached.
+   */
+  static async attach(context: BrowserContext, label = 'context'): Promise<NetworkFaults> {
+    const existing = faults.get(context);
+    if (existing) return existing;
+
+    const injector = new NetworkFaults(context, label);
+    faults.set(context, injector);
+    await context.routeWebSocket(/.*/, ws => {
+      const server = ws.connectToServer();
+      ws.onMessage(message => injector.forward(() => server.send(message)));
+      server.onMessage(message => injector.forward(() => ws.send(message)));
+    });
+    return injector;
+  }
+
+  /** The injector attached to a context, if any */
+  static of(context: BrowserContext): NetworkFaults | undefined {
+    return faults.get(context);
+  }
+
+  private forward(send: () => void): void {
+    const { dropRate, delayMs, blackhole } = this.ws;
+    if (blackhole || (dropRate > 0 && Math.random() < dropRate)) {
+      this.counters.dropped++;
+      return;
+    }
+    this.counters.forwarded++;
+    if (delayMs > 0) {
+      setTimeout(() => {
+        try {
+          send();
+        } catch {
+          // Socket closed while the frame was held back
+        }
+      }, delayMs);
+    } else {
+      send();
+    }
+  }
+
+  /** Change WebSocket faults; unspecified options keep their value */
+  setWebSocketFaults(options: WsFaultOptions): void {
+    this.ws = { ...this.ws, ...options };
+    console.log(`[NetworkFaults] ${this.label} ws faults: ${JSON.stringify(this.ws)}`);
+  }
+
+  clearWebSocketFaults(): void {
+    this.setWebSocketFaults({ dropRate: 0, delayMs: 0, blackhole: false });
+  }
+
+  /**
+   * Take the player offline for `ms`, then bring them back. HTTP fails fast
+   * (setOffline) and open sockets go silent in both directions, like a dropped
+   * Wi-Fi link; the client's own ping timeout decides when it reconnects.
+   */
+  async outage(page: Page, ms: number): Promise<void> {
+    console.log(`[NetworkFaults] ${this.label} offline for ${ms}ms`);
+    await this.context.setOffline(true);
+    this.setWebSocketFaults({ blackhole: true });
+    try {
+      await page.waitForTimeout(ms);
+    } finally {
+      this.setWebSocketFaults({ blackhole: false });
+      await this.context.setOffline(false);
+      console.log(`[NetworkFaults] ${this.label} back online (dropped ${this.counters.dropped} frames so far)`);
+    }
+  }
+
+  /**
+   * Slow link for `page`: CDP throttling for HTTP (Chromium only) plus the same
+   * latency on WebSocket frames. Returns a function that restores full speed.
+   */
+  async throttle(page: Page, options: ThrottleOptions): Promise<() => Promise<void>> {
+    const { latencyMs, downloadKbps, uploadKbps } = options;
+    const kbps = (value: number | undefined) => (value === undefined ? -1 : (value * 1024) / 8);
+    console.log(`[NetworkFaults] ${this.label} throttled: ${JSON.stringify(options)}`);
+
+    const cdp = await this.context.newCDPSession(page);
+    await cdp.send('Network.enable');
+    await cdp.send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: latencyMs,
+      downloadThroughput: kbps(downloadKbps),
+      uploadThroughput: kbps(uploadKbps),
+    });
+    this.setWebSocketFaults({ delayMs: latencyMs });
+
+    return async () => {
+      this.setWebSocketFaults({ delayMs: 0 });
+      if (page.isClosed()) return;
+      await cdp.send('Network.emulateNetworkConditions', {
+        offline: false,
+        latency: 0,
+        downloadThroughput: -1,
+        uploadThroughput: -1,
+      });
+      await cdp.detach();
+      console.log(`[NetworkFaults] ${this.label} throttle removed`);
+    };
+  }
+
+  /**
+   * Drop `dropRate` of WebSocket frames for `ms` (flaky mobile connection).
+   */
+  async flaky(page: Page, ms: number, dropRate = 0.3): Promise<void> {
+    this.setWebSocketFaults({ dropRate });
+    try {
+      await page.waitForTimeout(ms);
+    } finally {
+      this.setWebSocketFaults({ dropRate: 0 });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Page, expect } from '@playwright/test';
+import { SeriesApiClient, playerIndexOf, type SeriesOpening, type SeriesSnapshot } from './series-api';
 
 /**
  * Openings Tab Verification Helpers
@@ -32,14 +33,6 @@ export const openingsTabSelectors = {
 
 // ===== Types =====
 
-interface SeriesOpeningData {
-  name: string;
-  fen: string;
-  source: string; // 'pick' | 'ban'
-  owner: number; // 0 or 1
-  usedInRound?: number | null;
-}
-
 interface DisplayedOpening {
   name: string;
   fen: string;
@@ -48,35 +41,17 @@ interface DisplayedOpening {
 // ===== Internal Helpers =====
 
 /**
- * Fetch series openings and players from API
+ * Fetch series snapshot (openings + players) from API
  */
-async function fetchSeriesOpenings(
-  page: Page,
-  seriesId: string,
-): Promise<{
-  openings: SeriesOpeningData[];
-  players: Array<{ user?: { id: string }; index: number }>;
-}> {
-  const response = await page.request.get(`http://localhost:8080/series/${seriesId}`, {
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok()) {
-    throw new Error(`Failed to fetch series data: ${response.status()}`);
-  }
-
-  const data = await response.json();
-  return {
-    openings: data.openings || [],
-    players: data.players || [],
-  };
+async function fetchSeriesOpenings(page: Page, seriesId: string): Promise<SeriesSnapshot> {
+  return SeriesApiClient.for(page).get(seriesId);
 }
 
 /**
  * Compute remaining picks for a player.
  * Same logic as seriesOpenings.ts → remainingPicks()
  */
-function computeRemainingPicks(openings: SeriesOpeningData[], playerIndex: number): SeriesOpeningData[] {
+export function computeRemainingPicks(openings: SeriesOpening[], playerIndex: number): SeriesOpening[] {
   const picks = openings.filter(o => o.owner === playerIndex && o.source === 'pick');
   const oppBanNames = new Set(
     openings.filter(o => o.owner === (1 - playerIndex) && o.source === 'ban').map(o => o.name),
@@ -111,7 +86,7 @@ async function getDisplayedOpenings(page: Page): Promise<DisplayedOpening[]> {
 async function verifySubTabContent(
   page: Page,
   tabIndex: number,
-  expected: SeriesOpeningData[],
+  expected: SeriesOpening[],
   label: string,
 ): Promise<void> {
   // Click the sub-tab
@@ -171,11 +146,12 @@ export async function verifyOpeningsTab(
   gameNum?: number,
 ): Promise<void> {
   // 1. Fetch series data
-  const { openings, players } = await fetchSeriesOpenings(page, seriesId);
+  const snapshot = await fetchSeriesOpenings(page, seriesId);
+  const { openings } = snapshot;
 
   // 2. Determine POV index
-  const povIndex = players.findIndex(p => p.user?.id === username.toLowerCase());
-  if (povIndex === -1) {
+  const povIndex = playerIndexOf(snapshot, username);
+  if (povIndex === null) {
     throw new Error(`Player ${username} not found in series ${seriesId}`);
   }
   const oppIndex = 1 - povIndex;
@@ -1,13 +1,9 @@
-import { TestUser, users } from './auth';
-
 // Pick/Ban behavior types
 export type PickBanBehavior = 'confirm' | 'full-timeout' | 'partial-timeout' | 'none-timeout';
 
 // Test scenario definition
 export interface TestScenario {
   id: number;
-  player1: TestUser;
-  player2: TestUser;
   pick: { p1: PickBanBehavior; p2: PickBanBehavior };
   ban: { p1: PickBanBehavior; p2: PickBanBehavior };
   seriesResult: string; // e.g., '0 - 1/2 - 1 - 1'
@@ -17,21 +13,21 @@ export interface TestScenario {
 /**
  * Test Scenario Matrix
  *
- * | # | P1 | P2 | pick-p1 | pick-p2 | ban-p1 | ban-p2 | series result (p1) |
- * |---|----|----|---------|---------|--------|--------|-------------------|
- * | 0 | elena | hans | confirm | confirm | confirm | confirm | 0 - 1/2 - 1 - 1 |
- * | 1 | yulia | luis | confirm | full-timeout | confirm | none-timeout | 1 - 1 - 1 |
- * | 2 | ana | lola | full-timeout | confirm | none-timeout | confirm | 0 - 1 - 0 - 1 - 1/2 - 1 |
- * | 3 | carlos | nina | partial-timeout | confirm | confirm | partial-timeout | 0 - 0 - 1 - 1 - 1 |
- * | 4 | oscar | petra | confirm | partial-timeout | partial-timeout | confirm | 1 - 1/2 - 1 |
- * | 5 | boris | david | none-timeout | confirm | confirm | full-timeout | 1 - 0 - 1 - 0 - 1/2 - 1 |
- * | 6 | mei | ivan | confirm | none-timeout | full-timeout | confirm | 0 - 1 - 1 - 1 |
+ * Players are leased per test from the account pool (accounts.ts).
+ *
+ * | # | pick-p1 | pick-p2 | ban-p1 | ban-p2 | series result (p1) |
+ * |---|---------|---------|--------|--------|-------------------|
+ * | 0 | confirm | confirm | confirm | confirm | 0 - 1/2 - 1 - 1 |
+ * | 1 | confirm | full-timeout | confirm | none-timeout | 1 - 1 - 1 |
+ * | 2 | full-timeout | confirm | none-timeout | confirm | 0 - 1 - 0 - 1 - 1/2 - 1 |
+ * | 3 | partial-timeout | confirm | confirm | partial-timeout | 0 - 0 - 1 - 1 - 1 |
+ * | 4 | confirm | partial-timeout | partial-timeout | confirm | 1 - 1/2 - 1 |
+ * | 5 | none-timeout | confirm | confirm | full-timeout | 1 - 0 - 1 - 0 - 1/2 - 1 |
+ * | 6 | confirm | none-timeout | full-timeout | confirm | 0 - 1 - 1 - 1 |
  */
 export const testScenarios: TestScenario[] = [
   {
     id: 0,
-    player1: users.elena,
-    player2: users.hans,
     pick: { p1: 'confirm', p2: 'confirm' },
     ban: { p1: 'confirm', p2: 'confirm' },
     seriesResult: '0 - 1/2 - 1 - 1',
@@ -39,8 +35,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 1,
-    player1: users.yulia,
-    player2: users.luis,
     pick: { p1: 'confirm', p2: 'full-timeout' },
     ban: { p1: 'confirm', p2: 'none-timeout' },
     seriesResult: '1 - 1 - 1',
@@ -48,8 +42,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 2,
-    player1: users.ana,
-    player2: users.lola,
     pick: { p1: 'full-timeout', p2: 'confirm' },
     ban: { p1: 'none-timeout', p2: 'confirm' },
     seriesResult: '0 - 1 - 0 - 1 - 1/2 - 1',
@@ -57,8 +49,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 3,
-    player1: users.carlos,
-    player2: users.nina,
     pick: { p1: 'partial-timeout', p2: 'confirm' },
     ban: { p1: 'confirm', p2: 'partial-timeout' },
     seriesResult: '0 - 0 - 1 - 1 - 1',
@@ -66,8 +56,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 4,
-    player1: users.oscar,
-    player2: users.petra,
     pick: { p1: 'confirm', p2: 'partial-timeout' },
     ban: { p1: 'partial-timeout', p2: 'confirm' },
     seriesResult: '1 - 1/2 - 1',
@@ -75,8 +63,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 5,
-    player1: users.boris,
-    player2: users.david,
     pick: { p1: 'none-timeout', p2: 'confirm' },
     ban: { p1: 'confirm', p2: 'full-timeout' },
     seriesResult: '1 - 0 - 1 - 0 - 1/2 - 1',
@@ -84,8 +70,6 @@ export const testScenarios: TestScenario[] = [
   },
   {
     id: 6,
-    player1: users.mei,
-    player2: users.ivan,
     pick: { p1: 'confirm', p2: 'none-timeout' },
     ban: { p1: 'full-timeout', p2: 'confirm' },
     seriesResult: '0 - 1 - 1 - 1',
@@ -93,13 +77,246 @@ export const testScenarios: TestScenario[] = [
   },
 ];
 
-// Legacy compatibility - deprecated, use testScenarios instead
-export const testPairs = {
-  happyPath: { player1: users.elena, player2: users.hans },
-  banTimeout: { player1: users.boris, player2: users.david },
-  sweep: { player1: users.yulia, player2: users.luis },
-  pickTimeout: { player1: users.mei, player2: users.ivan },
-  smoke: { player1: users.ana, player2: users.lola },
-  comeback: { player1: users.carlos, player2: users.nina },
-  earlyWin: { player1: users.oscar, player2: users.petra },
-} as const;
+// ===== Flow Scenarios =====
+
+export type Side = 'p1' | 'p2';
+
+/**
+ * One step of a flow scenario, interpreted by ScenarioRunner (series-flow.ts).
+ *
+ * Steps run in order. When a step needs a later phase than the current one, the
+ * runner fills in the default path first: Pick/Ban with the scenario's `pick`/`ban`
+ * behaviors, then Resting (both confirm) and Selecting (loser picks) between games.
+ */
+export type ScenarioStep =
+  // Pick/Ban
+  | 'pick-phase' // complete Pick with scenario.pick
+  | 'ban-phase' // complete Ban with scenario.ban → game 1
+  | `${Side}-disconnect-in-pick` // opponent confirms, side closes page → abort
+  | `${Side}-disconnect-in-ban`
+  | `${Side}-blip-in-pick` // short outage (< offline threshold) → phase goes on
+  | `${Side}-blip-in-ban`
+  // Game (each step ends the current game)
+  | `${Side}-resign`
+  | 'draw'
+  | `${Side}-forfeit-before-moves` // X button, game aborted → series forfeit
+  | `${Side}-forfeit-after-moves` // X button, game resigned → series forfeit
+  | `${Side}-disconnect-in-game` // both move, side closes page → opponent claims victory
+  | `${Side}-blip-in-game` // both move, short outage, game goes on (no phase change)
+  | `${Side}-flaky-in-game` // both move, side drops 30% of socket frames for a while
+  | 'nostart-first-mover' // nobody moves → first mover (startColor) loses
+  | 'nostart-second-mover' // first mover moves, second doesn't → second mover loses
+  // Resting (after a game)
+  | 'resting-confirm'
+  | 'resting-cancel-then-confirm' // P1 confirm → cancel → re-confirm, P2 confirm → countdown
+  | 'resting-cancel-then-timeout' // P1 confirm → cancel, then nobody clicks (30s)
+  | 'resting-timeout'
+  | `${Side}-disconnect-in-resting` // → series forfeit by side
+  | 'both-disconnect-in-resting' // → series abort
+  | `${Side}-blip-in-resting` // short outage, Resting goes on
+  | `${Side}-slow-resting-confirm` // side on a high-latency link, both confirm → countdown
+  // Selecting / next game
+  | 'selecting-timeout' // loser never picks → server picks at random after 30s
+  | 'next-game' // loser picks (or RandomSelecting after a draw) → both on next game
+  // Checks (no phase change)
+  | `${Side}-reconnect` // home → reconnection banner → "Return to Series"
+  | 'check-openings-tab'
+  | 'check-game-buttons'; // series game shows forfeit/takeback/draw/resign
+
+export interface ScenarioExpectation {
+  status: 'started' | 'finished' | 'aborted';
+  winner?: Side | null; // default null
+  forfeitBy?: Side | null; // default null
+  /** Verify the Finished page banner on every page still open */
+  finishedPage?: boolean;
+}
+
+// Scores and game count are tracked by the runner from the steps themselves.
+export interface FlowScenario {
+  id: number;
+  group: 'disconnect' | 'forfeit' | 'nostart' | 'resting' | 'network';
+  pick?: { p1: PickBanBehavior; p2: PickBanBehavior }; // default confirm/confirm
+  ban?: { p1: PickBanBehavior; p2: PickBanBehavior };
+  steps: ScenarioStep[];
+  expect: ScenarioExpectation;
+  /** Forfeit the still-running series via the API after verification, so the accounts keep no unfinished series */
+  endByForfeit?: boolean;
+  description: string;
+  timeout: number;
+}
+
+/**
+ * Flow Scenario Table
+ *
+ * Disconnect / forfeit / NoStart / resting / network fault edge cases. A new edge case is one row;
+ * the spec for its group picks it up automatically and leases two players for it.
+ *
+ * | # | group | steps | expected |
+ * |---|-------|-------|----------|
+ * | 7 | disconnect | p2-reconnect, p2-disconnect-in-pick | aborted |
+ * | 8 | disconnect | pick-phase, p2-reconnect, p2-disconnect-in-ban | aborted |
+ * | 14 | disconnect | p2-disconnect-in-game | started, 1-0 |
+ * | 15 | disconnect | p1-resign ×2, p2-disconnect-in-game | started, 1-2 |
+ * | 21 | disconnect | p2-resign, resting-confirm, selecting-timeout | started, game 2 |
+ * | 22 | disconnect | p1-resign, p2-reconnect, both-disconnect-in-resting | aborted |
+ * | 23 | disconnect | p1-resign, p2-reconnect, p2-disconnect-in-resting | P1 wins (forfeit) |
+ * | 9 | forfeit | check-game-buttons, check-openings-tab, p1-forfeit-after-moves | P2 wins (forfeit) |
+ * | 10 | forfeit | check-openings-tab, p1-forfeit-before-moves | P2 wins (forfeit) |
+ * | 21 | nostart | nostart-first-mover | started, second mover 1-0 → forfeit |
+ * | 22 | nostart | nostart-second-mover | started, first mover 1-0 → forfeit |
+ * | 18 | resting | p2-resign, resting-cancel-then-confirm, next-game | started, game 2 |
+ * | 19 | resting | p1-resign, resting-cancel-then-timeout, next-game | started, game 2 |
+ * | 33 | network | p2-blip-in-pick, p1-blip-in-ban, p2-resign | started, 1-0 |
+ * | 34 | network | p1-blip-in-game, p2-resign | started, 1-0 |
+ * | 35 | network | p1-resign, p2-blip-in-resting, resting-confirm, next-game | started, game 2 |
+ * | 36 | network | p2-resign, p2-slow-resting-confirm, p1-flaky-in-game, p1-resign | started, 1-1 |
+ */
+export const flowScenarios: FlowScenario[] = [
+  // ----- disconnect -----
+  {
+    id: 7,
+    group: 'disconnect',
+    steps: ['p2-reconnect', 'p2-disconnect-in-pick'],
+    expect: { status: 'aborted' },
+    description: 'Pick phase disconnect → abort',
+    timeout: 120000, // 30s phase timeout + buffer
+  },
+  {
+    id: 8,
+    group: 'disconnect',
+    steps: ['pick-phase', 'p2-reconnect', 'p2-disconnect-in-ban'],
+    expect: { status: 'aborted' },
+    description: 'Ban phase disconnect → abort',
+    timeout: 120000, // Pick confirm + 30s ban timeout + buffer
+  },
+  {
+    id: 14,
+    group: 'disconnect',
+    steps: ['p2-disconnect-in-game'],
+    expect: { status: 'started' },
+    description: 'Game disconnect → game loss, series continues',
+    timeout: 180000, // Ban/pick ~30s + game disconnect detection ~90s + buffer
+  },
+  {
+    id: 15,
+    group: 'disconnect',
+    steps: ['p1-resign', 'p1-resign', 'p2-disconnect-in-game'],
+    expect: { status: 'started' },
+    description: '0-2 then game 3 disconnect → game loss (score 1-2), series continues',
+    timeout: 260000, // 2 games + resting + selecting + disconnect detection ~60s + buffer
+  },
+  {
+    id: 21,
+    group: 'disconnect',
+    steps: ['p2-resign', 'resting-confirm', 'selecting-timeout'],
+    expect: { status: 'started' },
+    description: 'Selecting timeout → random pick, game 2 starts',
+    timeout: 180000, // Ban/pick + game 1 + resting + selecting timeout (30s) + buffer
+  },
+  {
+    id: 22,
+    group: 'disconnect',
+    steps: ['p1-resign', 'p2-reconnect', 'both-disconnect-in-resting'],
+    expect: { status: 'aborted' },
+    description: 'Resting both DC → series abort',
+    timeout: 150000, // Ban/pick + game 1 + resting timeout (30s) + DC detection + buffer
+  },
+  {
+    id: 23,
+    group: 'disconnect',
+    steps: ['p1-resign', 'p2-reconnect', 'p2-disconnect-in-resting'],
+    expect: { status: 'finished', winner: 'p1', forfeitBy: 'p2', finishedPage: true },
+    description: 'Resting 1 DC → series forfeit (P1 wins)',
+    timeout: 150000,
+  },
+
+  // ----- forfeit -----
+  {
+    id: 9,
+    group: 'forfeit',
+    steps: ['check-game-buttons', 'check-openings-tab', 'p1-forfeit-after-moves'],
+    expect: { status: 'finished', winner: 'p2', forfeitBy: 'p1', finishedPage: true },
+    description: 'Forfeit after moves → game resign, series finished',
+    timeout: 120000,
+  },
+  {
+    id: 10,
+    group: 'forfeit',
+    steps: ['check-openings-tab', 'p1-forfeit-before-moves'],
+    expect: { status: 'finished', winner: 'p2', forfeitBy: 'p1', finishedPage: true },
+    description: 'Forfeit before moves → game abort, series finished',
+    timeout: 120000,
+  },
+
+  // ----- nostart -----
+  {
+    id: 21,
+    group: 'nostart',
+    steps: ['nostart-first-mover'],
+    expect: { status: 'started' },
+    endByForfeit: true,
+    description: 'Neither player moves → first mover loses via NoStart',
+    timeout: 120000,
+  },
+  {
+    id: 22,
+    group: 'nostart',
+    steps: ['nostart-second-mover'],
+    expect: { status: 'started' },
+    endByForfeit: true,
+    description: "First mover moves, second doesn't → second mover loses via NoStart",
+    timeout: 120000,
+  },
+
+  // ----- resting -----
+  {
+    id: 18,
+    group: 'resting',
+    steps: ['p2-resign', 'resting-cancel-then-confirm', 'next-game'],
+    expect: { status: 'started' },
+    description: 'Resting UI appears after game → cancel, both confirm → next game starts',
+    timeout: 120000,
+  },
+  {
+    id: 19,
+    group: 'resting',
+    steps: ['p1-resign', 'resting-cancel-then-timeout', 'next-game'],
+    expect: { status: 'started' },
+    description: 'No one clicks Next Game → 30s timeout → auto-transition',
+    timeout: 120000, // 30s resting timeout + phase transition + game start + buffer
+  },
+
+  // ----- network (blips shorter than the 5s offline threshold) -----
+  {
+    id: 33,
+    group: 'network',
+    steps: ['p2-blip-in-pick', 'p1-blip-in-ban', 'p2-resign'],
+    expect: { status: 'started' },
+    description: 'Short outages during Pick and Ban → no abort, game 1 starts',
+    timeout: 150000,
+  },
+  {
+    id: 34,
+    group: 'network',
+    steps: ['p1-blip-in-game', 'p2-resign'],
+    expect: { status: 'started' },
+    description: 'Short outage mid-game → no disconnect loss, game goes on',
+    timeout: 150000,
+  },
+  {
+    id: 35,
+    group: 'network',
+    steps: ['p1-resign', 'p2-blip-in-resting', 'resting-confirm', 'next-game'],
+    expect: { status: 'started' },
+    description: 'Short outage during Resting → no forfeit, next game starts',
+    timeout: 180000,
+  },
+  {
+    id: 36,
+    group: 'network',
+    steps: ['p2-resign', 'p2-slow-resting-confirm', 'p1-flaky-in-game', 'p1-resign'],
+    expect: { status: 'started' },
+    description: 'High-latency confirm during countdown + flaky socket in game → series goes on',
+    timeout: 240000,
+  },
+];
@@ -0,0 +1,337 @@
+import { APIRequestContext, Page } from '@playwright/test';
+import { stackProfile } from './stack';
+
+/**
+ * Series API Client
+ *
+ * Typed access to `GET /series/{id}` (Accept: application/json).
+ * Every response is validated at runtime against the contract documented in
+ * README.md ("Series API 응답 형식"). When the Scala side changes the payload,
+ * the first call fails with a SeriesContractError that names the offending
+ * field, instead of a helper silently reading `undefined`.
+ */
+
+// ===== Models =====
+
+/** Phase ids (from Series.scala) */
+export const SeriesPhase = {
+  Picking: 10,
+  Banning: 20,
+  RandomSelecting: 25,
+  Playing: 30,
+  Selecting: 40,
+  Finished: 50,
+} as const;
+
+export type SeriesPhaseName =
+  | 'Picking'
+  | 'Banning'
+  | 'RandomSelecting'
+  | 'Playing'
+  | 'Resting'
+  | 'Selecting'
+  | 'Finished';
+
+const phaseNames: readonly SeriesPhaseName[] = [
+  'Picking',
+  'Banning',
+  'RandomSelecting',
+  'Playing',
+  'Resting',
+  'Selecting',
+  'Finished',
+];
+
+/** Status ids (from Series.scala) */
+export const SeriesStatus = {
+  Created: 10,
+  Started: 20,
+  Finished: 30,
+  Aborted: 40,
+} as const;
+
+export type SeriesStatusId = (typeof SeriesStatus)[keyof typeof SeriesStatus];
+
+/** Global player index (NOT POV-relative, see README) */
+export type PlayerIndex = 0 | 1;
+
+export interface SeriesUser {
+  id: string;
+  name: string;
+}
+
+export interface SeriesPlayer {
+  index: PlayerIndex;
+  score: number; // displayScore: win=1, draw=0.5, loss=0
+  confirmedPicks: boolean;
+  confirmedBans: boolean;
+  isOnline: boolean;
+  /** null for the computer in an AI series */
+  user: SeriesUser | null;
+  /** Stockfish level, AI series only */
+  aiLevel: number | null;
+}
+
+export interface SeriesOpening {
+  id?: string;
+  name: string;
+  fen: string;
+  source: 'pick' | 'ban';
+  owner: PlayerIndex;
+  usedInRound: number | null;
+}
+
+export interface SeriesGame {
+  gameId: string;
+  round: number;
+  openingId: string;
+  whitePlayer: PlayerIndex;
+  result: string | null; // 'white' | 'black' | 'draw', null while playing
+}
+
+export interface SeriesSnapshot {
+  id: string;
+  phase: number;
+  phaseName: SeriesPhaseName;
+  status: SeriesStatusId;
+  bestOf: number;
+  round: number;
+  players: [SeriesPlayer, SeriesPlayer];
+  openings: SeriesOpening[];
+  games: SeriesGame[];
+  finished: boolean;
+  winner: PlayerIndex | null;
+  forfeitBy: PlayerIndex | null;
+  povIndex: PlayerIndex | null;
+  currentGame: string | null;
+  timeLeft: number | null; // Picking/Banning/Selecting only
+}
+
+// ===== Validation =====
+
+/**
+ * Thrown when the Series API payload does not match the documented contract.
+ * Never swallow this in retry loops - retrying cannot fix a schema change.
+ */
+export class SeriesContractError extends Error {
+  constructor(
+    readonly seriesId: string,
+    readonly path: string,
+    readonly detail: string,
+  ) {
+    super(`Series API contract violation (series ${seriesId}) at ${path}: ${detail}`);
+    this.name = 'SeriesContractError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+class Validator {
+  constructor(private readonly seriesId: string) {}
+
+  fail(path: string, detail: string): never {
+    throw new SeriesContractError(this.seriesId, path, detail);
+  }
+
+  object(value: unknown, path: string): Json {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `expected object, got ${describe(value)}`);
+    }
+    return value as Json;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) this.fail(path, `expected array, got ${describe(value)}`);
+    return value;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string') this.fail(path, `expected string, got ${describe(value)}`);
+    return value;
+  }
+
+  number(value: unknown, path: string): number {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      this.fail(path, `expected number, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') this.fail(path, `expected boolean, got ${describe(value)}`);
+    return value;
+  }
+
+  playerIndex(value: unknown, path: string): PlayerIndex {
+    if (value !== 0 && value !== 1) this.fail(path, `expected player index 0 or 1, got ${describe(value)}`);
+    return value;
+  }
+
+  oneOf<T>(value: unknown, allowed: readonly T[], path: string): T {
+    if (!allowed.includes(value as T)) {
+      this.fail(path, `expected one of ${JSON.stringify(allowed)}, got ${describe(value)}`);
+    }
+    return value as T;
+  }
+
+  nullable<T>(value: unknown, path: string, read: (v: unknown, p: string) => T): T | null {
+    return value === null || value === undefined ? null : read.call(this, value, path);
+  }
+}
+
+function parsePlayer(v: Validator, raw: unknown, path: string): SeriesPlayer {
+  const p = v.object(raw, path);
+  const user = v.nullable(p.user, `${path}.user`, v.object);
+  const aiLevel = v.nullable(p.aiLevel, `${path}.aiLevel`, v.number);
+  if (!user && aiLevel === null) v.fail(path, 'expected a user or an aiLevel');
+  return {
+    index: v.playerIndex(p.index, `${path}.index`),
+    score: v.number(p.score, `${path}.score`),
+    confirmedPicks: v.boolean(p.confirmedPicks, `${path}.confirmedPicks`),
+    confirmedBans: v.boolean(p.confirmedBans, `${path}.confirmedBans`),
+    isOnline: v.boolean(p.isOnline, `${path}.isOnline`),
+    user: user && {
+      id: v.string(user.id, `${path}.user.id`),
+      name: v.string(user.name, `${path}.user.name`),
+    },
+    aiLevel,
+  };
+}
+
+function parseOpening(v: Validator, raw: unknown, path: string): SeriesOpening {
+  const o = v.object(raw, path);
+  return {
+    id: v.nullable(o.id, `${path}.id`, v.string) ?? undefined,
+    name: v.string(o.name, `${path}.name`),
+    fen: v.string(o.fen, `${path}.fen`),
+    source: v.oneOf(o.source, ['pick', 'ban'] as const, `${path}.source`),
+    owner: v.playerIndex(o.owner, `${path}.owner`),
+    usedInRound: v.nullable(o.usedInRound, `${path}.usedInRound`, v.number),
+  };
+}
+
+function parseGame(v: Validator, raw: unknown, path: string): SeriesGame {
+  const g = v.object(raw, path);
+  return {
+    gameId: v.string(g.gameId, `${path}.gameId`),
+    round: v.number(g.round, `${path}.round`),
+    openingId: v.string(g.openingId, `${path}.openingId`),
+    whitePlayer: v.playerIndex(g.whitePlayer, `${path}.whitePlayer`),
+    result: v.nullable(g.result, `${path}.result`, v.string),
+  };
+}
+
+/**
+ * Validate a raw `GET /series/{id}` payload.
+ * Exported so callers holding JSON from elsewhere (e.g. a WS frame) can reuse it.
+ */
+export function parseSeriesSnapshot(seriesId: string, raw: unknown): SeriesSnapshot {
+  const v = new Validator(seriesId);
+  const d = v.object(raw, '$');
+
+  const players = v.array(d.players, '$.players');
+  if (players.length !== 2) v.fail('$.players', `expected 2 players, got ${players.length}`);
+  const p0 = parsePlayer(v, players[0], '$.players[0]');
+  const p1 = parsePlayer(v, players[1], '$.players[1]');
+  if (p0.index !== 0 || p1.index !== 1) v.fail('$.players', 'expected players ordered by index [0, 1]');
+
+  return {
+    id: v.string(d.id, '$.id'),
+    phase: v.number(d.phase, '$.phase'),
+    phaseName: v.oneOf(d.phaseName, phaseNames, '$.phaseName'),
+    status: v.oneOf(d.status, Object.values(SeriesStatus), '$.status'),
+    bestOf: v.number(d.bestOf, '$.bestOf'),
+    round: v.number(d.round, '$.round'),
+    players: [p0, p1],
+    openings: v.array(d.openings, '$.openings').map((o, i) => parseOpening(v, o, `$.openings[${i}]`)),
+    games: v.array(d.games, '$.games').map((g, i) => parseGame(v, g, `$.games[${i}]`)),
+    finished: v.boolean(d.finished, '$.finished'),
+    winner: v.nullable(d.winner, '$.winner', v.playerIndex),
+    forfeitBy: v.nullable(d.forfeitBy, '$.forfeitBy', v.playerIndex),
+    povIndex: v.nullable(d.povIndex, '$.povIndex', v.playerIndex),
+    currentGame: v.nullable(d.currentGame, '$.currentGame', v.string),
+    timeLeft: v.nullable(d.timeLeft, '$.timeLeft', v.number),
+  };
+}
+
+// ===== Client =====
+
+export class SeriesApiClient {
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly baseURL = stackProfile().baseURL,
+  ) {}
+
+  /** Client bound to a player's session (uses the page's cookies) */
+  static for(page: Page): SeriesApiClient {
+    return new SeriesApiClient(page.request);
+  }
+
+  /**
+   * Fetch and validate a series snapshot.
+   * Throws on HTTP errors and on contract violations.
+   */
+  async get(seriesId: string): Promise<SeriesSnapshot> {
+    const snapshot = await this.tryGet(seriesId);
+    if (!snapshot) throw new Error(`[SeriesApiClient] GET /series/${seriesId} failed`);
+    return snapshot;
+  }
+
+  /**
+   * Like get(), but returns null on a non-OK HTTP status.
+   * Contract violations still throw.
+   */
+  async tryGet(seriesId: string): Promise<SeriesSnapshot | null> {
+    const response = await this.request.get(`${this.baseURL}/series/${seriesId}`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok()) {
+      console.log(`[SeriesApiClient] GET /series/${seriesId} → ${response.status()}`);
+      return null;
+    }
+    return parseSeriesSnapshot(seriesId, await response.json());
+  }
+
+  /**
+   * Poll until the predicate holds. Returns the last snapshot either way,
+   * so callers can assert on it and log what they actually saw.
+   */
+  async poll(
+    seriesId: string,
+    predicate: (s: SeriesSnapshot) => boolean,
+    { retries = 5, intervalMs = 2000 } = {},
+  ): Promise<{ snapshot: SeriesSnapshot | null; matched: boolean }> {
+    let snapshot: SeriesSnapshot | null = null;
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      snapshot = await this.tryGet(seriesId);
+      if (snapshot && predicate(snapshot)) return { snapshot, matched: true };
+      if (attempt < retries) await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+    return { snapshot, matched: false };
+  }
+
+  /** `POST /series/{id}/forfeit` as the session owner */
+  async forfeit(seriesId: string): Promise<{ ok: boolean; status: number; body: string }> {
+    const response = await this.request.post(`${this.baseURL}/series/${seriesId}/forfeit`, {
+      headers: { Accept: 'application/json' },
+    });
+    return { ok: response.ok(), status: response.status(), body: await response.text() };
+  }
+}
+
+// ===== Snapshot Queries =====
+
+/**
+ * Find a user's global index in the series, or null if not a participant.
+ */
+export function playerIndexOf(snapshot: SeriesSnapshot, username: string): PlayerIndex | null {
+  const id = username.toLowerCase();
+  const player = snapshot.players.find(p => p.user?.id === id);
+  return player ? player.index : null;
+}
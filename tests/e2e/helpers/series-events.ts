@@ -0,0 +1,228 @@
+import { Page } from '@playwright/test';
+
+/**
+ * Series WebSocket Event Tap
+ *
+ * Records every JSON frame the server pushes to a page (lila-ws `{ t, d }`
+ * messages on the series and round sockets) via Playwright's
+ * `page.on('websocket')`. Specs and helpers can then wait on server events
+ * instead of polling URLs and DOM:
+ *
+ *   const seriesEvents = SeriesEventTap.attach(player1, 'P1');
+ *   ...
+ *   await seriesEvents.next('phase', { name: 'Selecting' });
+ *
+ * Attach the tap BEFORE the navigation that opens the socket; frames sent
+ * before attach() are not recorded.
+ */
+
+export interface SeriesEvent {
+  t: string;
+  d: unknown;
+  url: string; // socket URL the frame arrived on
+  at: number; // Date.now() on receipt
+}
+
+const taps = new WeakMap<Page, SeriesEventTap>();
+
+/** Phase name of a `phase` event: `{ t: 'phase', d: { name: 'Banning', ... } }` */
+export function phaseOf(event: SeriesEvent): string {
+  return String((event.d as { name?: unknown } | null)?.name);
+}
+
+/**
+ * Deep partial match: every key in `expected` must equal the value in `actual`
+ * (recursing into nested objects). Arrays and primitives compare by value.
+ */
+export function matchesEvent(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== 'object') return actual === expected;
+  if (Array.isArray(expected)) return JSON.stringify(actual) === JSON.stringify(expected);
+  if (actual === null || typeof actual !== 'object') return false;
+  return Object.entries(expected).every(([k, v]) => matchesEvent((actual as Record<string, unknown>)[k], v));
+}
+
+export class SeriesEventTap {
+  readonly events: SeriesEvent[] = [];
+  /** Frames the page sent (same `{ t, d }` filter), e.g. to check a hand-written client against the UI */
+  readonly sent: SeriesEvent[] = [];
+  private cursor = 0;
+  private consumed = new Set<SeriesEvent>();
+  private listeners = new Set<() => void>();
+  private closed = false;
+
+  private constructor(readonly label: string) {}
+
+  /**
+   * Start recording frames for a page. Idempotent: returns the existing tap
+   * if the page is already tapped.
+   */
+  static attach(page: Page, label = 'page'): SeriesEventTap {
+    const existing = taps.get(page);
+    if (existing) return existing;
+
+    const tap = new SeriesEventTap(label);
+    taps.set(page, tap);
+    page.on('websocket', ws => {
+      ws.on('framereceived', ({ payload }) => tap.record(ws.url(), payload));
+      ws.on('framesent', ({ payload }) => tap.record(ws.url(), payload, 'sent'));
+    });
+    page.on('close', () => tap.close());
+    return tap;
+  }
+
+  /** The tap attached to a page, if any */
+  static of(page: Page): SeriesEventTap | undefined {
+    return taps.get(page);
+  }
+
+  private record(url: string, payload: string | Buffer, direction: 'received' | 'sent' = 'received'): void {
+    const text = typeof payload === 'string' ? payload : payload.toString('utf-8');
+    // Pings/pongs are bare "0"/"p" strings - only keep { t, d } messages
+    if (!text.startsWith('{')) return;
+    let msg: { t?: unknown; d?: unknown };
+    try {
+      msg = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (typeof msg.t !== 'string') return;
+
+    const event = { t: msg.t, d: msg.d, url, at: Date.now() };
+    if (direction === 'sent') {
+      this.sent.push(event);
+      return;
+    }
+    this.events.push(event);
+    for (const notify of [...this.listeners]) notify();
+  }
+
+  private close(): void {
+    this.closed = true;
+    for (const notify of [...this.listeners]) notify();
+  }
+
+  /**
+   * Wait for the next event of type `t` whose payload matches `match`.
+   * Returns the oldest matching event not returned before, so an event that
+   * arrived before the call is still found. Only the returned event is
+   * consumed - events that do not match stay available to later calls.
+   */
+  async next(t: string, match: unknown = {}, timeout = 30000): Promise<SeriesEvent> {
+    const event = await this.tryNext(t, match, timeout);
+    if (event) return event;
+    if (this.closed) throw new Error(`[SeriesEventTap] ${this.label} page closed while waiting for '${t}'`);
+    throw new Error(
+      `[SeriesEventTap] ${this.label} timeout waiting for '${t}' ${JSON.stringify(match)} ` +
+        `(recent: ${this.sequence().slice(-10).join(', ')})`,
+    );
+  }
+
+  /**
+   * next() that resolves null on timeout or page close - for waits with a
+   * DOM fallback.
+   */
+  async tryNext(t: string, match: unknown = {}, timeout = 30000): Promise<SeriesEvent | null> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      for (let i = this.cursor; i < this.events.length; i++) {
+        const e = this.events[i];
+        if (!this.consumed.has(e) && e.t === t && matchesEvent(e.d, match)) {
+          this.consumed.add(e);
+          console.log(`[SeriesEventTap] ${this.label} ← ${t} ${JSON.stringify(e.d)}`);
+          return e;
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (this.closed || remaining <= 0) return null;
+      await this.activity(remaining);
+    }
+  }
+
+  /**
+   * Wait for a matching event that arrives after this call, without consuming
+   * it: a later next() still gets it. Resolves null on timeout or page close.
+   * For wake-ups inside polling loops.
+   */
+  async arrival(t: string, match: unknown = {}, timeout = 30000): Promise<SeriesEvent | null> {
+    const from = this.events.length;
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const e = this.events.slice(from).find(e => e.t === t && matchesEvent(e.d, match));
+      if (e) return e;
+
+      const remaining = deadline - Date.now();
+      if (this.closed || remaining <= 0) return null;
+      await this.activity(remaining);
+    }
+  }
+
+  /**
+   * Resolve on the next recorded frame (or page close), or after `ms`.
+   * Lets polling loops react to server pushes instead of sleeping blindly.
+   */
+  activity(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listeners.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.listeners.add(done);
+    });
+  }
+
+  /** All recorded events of type `t` matching `match` (does not move the cursor) */
+  all(t: string, match: unknown = {}): SeriesEvent[] {
+    return this.events.filter(e => e.t === t && matchesEvent(e.d, match));
+  }
+
+  /** Phase names of the recorded `phase` events, in order - for order assertions */
+  phases(): string[] {
+    return this.all('phase').map(phaseOf);
+  }
+
+  /** Ordered event types, optionally restricted to `types` - for order assertions */
+  sequence(types?: string[]): string[] {
+    return this.events.filter(e => !types || types.includes(e.t)).map(e => e.t);
+  }
+
+  /** Skip everything recorded so far; the next next() only sees newer events */
+  skipPending(): void {
+    this.cursor = this.events.length;
+  }
+}
+
+/**
+ * Attach taps to both players of a series.
+ */
+export function attachSeriesEvents(player1: Page, player2: Page): { p1: SeriesEventTap; p2: SeriesEventTap } {
+  return {
+    p1: SeriesEventTap.attach(player1, 'P1'),
+    p2: SeriesEventTap.attach(player2, 'P2'),
+  };
+}
+
+/**
+ * Wait up to `ms` for a `phase` event (any phase unless `name`) to arrive on
+ * the page. The event is not consumed, so it never steals one from a later
+ * next(). Untapped pages just sleep. Returns the event, or null - the caller
+ * then re-checks the DOM.
+ */
+export async function waitForPhaseEvent(page: Page, ms: number, name?: string): Promise<SeriesEvent | null> {
+  const tap = SeriesEventTap.of(page);
+  if (tap) return tap.arrival('phase', name ? { name } : {}, ms);
+  await page.waitForTimeout(ms);
+  return null;
+}
+
+/**
+ * Sleep up to `ms`, waking early when the page's tap records a frame.
+ * Falls back to a plain timeout for untapped pages.
+ */
+export async function waitForActivity(page: Page, ms: number): Promise<void> {
+  const tap = SeriesEventTap.of(page);
+  if (tap) await tap.activity(ms);
+  else await page.waitForTimeout(ms);
+}
@@ -0,0 +1,702 @@
+import { BrowserContext, Page, expect } from '@playwright/test';
+import { loginBothPlayers, type TestUser } from './auth';
+import type { FlowScenario, ScenarioStep, Side } from './scenarios';
+import {
+  createSeriesChallenge,
+  runPickPhase,
+  runBanPhase,
+  executePickBanBehavior,
+  waitForPhase,
+  waitForSnabbdomReady,
+  playOneGame,
+  playBothMoves,
+  makeAnyMove,
+  isMyTurn,
+  claimVictoryAfterDisconnect,
+  clickSeriesForfeitButton,
+  confirmSeriesForfeit,
+  waitForRestingUI,
+  confirmNextInResting,
+  cancelNextInResting,
+  getRestingTimeLeft,
+  waitForNextGame,
+  waitForGamePage,
+  verifyReconnectionBanner,
+  isSeriesAborted,
+  isSeriesFinished,
+  forfeitSeriesViaApi,
+  waitForFinishedPage,
+  verifyFinishedPageUI,
+  getGameIdFromUrl,
+  gameSelectors,
+  selectors,
+  type ScreenshotFn,
+} from './series';
+import { SeriesApiClient, SeriesStatus, playerIndexOf, type PlayerIndex } from './series-api';
+import { attachSeriesEvents } from './series-events';
+import { verifyOpeningsTab } from './openings-tab';
+import { isSeriesDecided } from './series-model';
+import { assertSeriesInvariants, checkInvariantsVia } from './series-invariants';
+import { verifyGameOpening } from './game-opening';
+import { NetworkFaults } from './network-faults';
+
+/**
+ * Flow Scenario Runner
+ *
+ * Interprets the ScenarioStep language from scenarios.ts. The runner keeps track
+ * of where the series is (phase, games, expected scores) so a step only has to
+ * say what happens, not how to get there:
+ *
+ *   const runner = await ScenarioRunner.start(contexts, [p1User, p2User], scenario, takeScreenshot);
+ *   for (const step of scenario.steps) await test.step(step, () => runner.run(step));
+ *   await test.step('Verify outcome', () => runner.verify());
+ *
+ * Every step is followed by an invariant check on the Series API snapshot.
+ */
+
+type FlowAt = 'pick' | 'ban' | 'game' | 'resting' | 'after-resting' | 'done';
+
+export interface FlowContexts {
+  player1Context: BrowserContext;
+  player2Context: BrowserContext;
+  player1: Page;
+  player2: Page;
+}
+
+const other = (side: Side): Side => (side === 'p1' ? 'p2' : 'p1');
+
+// Outage length for *-blip-* steps: well under the server's 5s offline threshold
+const BLIP_MS = 3000;
+
+export class ScenarioRunner {
+  private at: FlowAt = 'pick';
+  private games = 0;
+  private scores: [number, number] = [0, 0]; // P1, P2
+  private lastGameId = '';
+  private verifyPage: Page | null = null;
+
+  private constructor(
+    private readonly contexts: FlowContexts,
+    private readonly players: [TestUser, TestUser],
+    private readonly scenario: FlowScenario,
+    readonly seriesId: string,
+    private readonly screenshot?: ScreenshotFn,
+  ) {}
+
+  /**
+   * Create the series via Friend Challenge; both players end up on the pick page.
+   */
+  static async start(
+    contexts: FlowContexts,
+    players: [TestUser, TestUser],
+    scenario: FlowScenario,
+    screenshot?: ScreenshotFn,
+  ): Promise<ScenarioRunner> {
+    const { player1, player2 } = contexts;
+    const [p1User, p2User] = players;
+    // Network fault steps route the sockets through NetworkFaults → attach before any socket opens
+    if (scenario.steps.some(step => /-(blip|flaky|slow)-/.test(step))) {
+      await NetworkFaults.attach(contexts.player1Context, 'P1');
+      await NetworkFaults.attach(contexts.player2Context, 'P2');
+    }
+    await loginBothPlayers(player1, player2, p1User, p2User);
+    const seriesId = await createSeriesChallenge(player1, player2, p2User.username);
+    attachSeriesEvents(player1, player2);
+    if (screenshot) await screenshot('series-created', player1);
+    return new ScenarioRunner(contexts, players, scenario, seriesId, screenshot);
+  }
+
+  // ===== Players =====
+
+  private page(side: Side): Page {
+    return side === 'p1' ? this.contexts.player1 : this.contexts.player2;
+  }
+
+  private faults(side: Side): NetworkFaults {
+    const context = side === 'p1' ? this.contexts.player1Context : this.contexts.player2Context;
+    const faults = NetworkFaults.of(context);
+    if (!faults) throw new Error(`[ScenarioRunner] No NetworkFaults attached for ${side}`);
+    return faults;
+  }
+
+  private username(side: Side): string {
+    return this.players[side === 'p1' ? 0 : 1].username;
+  }
+
+  private async shoot(name: string, side: Side): Promise<void> {
+    const page = this.page(side);
+    if (this.screenshot && !page.isClosed()) await this.screenshot(`${name}-${side}`, page);
+  }
+
+  private async shootBoth(name: string): Promise<void> {
+    await this.shoot(name, 'p1');
+    await this.shoot(name, 'p2');
+  }
+
+  private win(side: Side): void {
+    this.scores[side === 'p1' ? 0 : 1] += 1;
+  }
+
+  // ===== Default Path =====
+
+  /**
+   * Advance along the default path until the series is at `target`.
+   */
+  private async ensure(target: 'pick' | 'ban' | 'game' | 'resting', step: ScenarioStep): Promise<void> {
+    const { player1, player2 } = this.contexts;
+    const pick = this.scenario.pick ?? { p1: 'confirm', p2: 'confirm' };
+    const ban = this.scenario.ban ?? { p1: 'confirm', p2: 'confirm' };
+
+    if (this.at === target) return;
+
+    if (target === 'ban' && this.at === 'pick') {
+      await runPickPhase(player1, player2, pick, this.screenshot);
+      this.at = 'ban';
+      return;
+    }
+
+    if (target === 'game') {
+      switch (this.at) {
+        case 'pick':
+          await runPickPhase(player1, player2, pick, this.screenshot);
+        // falls through
+        case 'ban':
+          await runBanPhase(player1, player2, ban, this.screenshot);
+          break;
+        case 'resting':
+        case 'after-resting':
+          // Resting (both confirm unless already handled) → Selecting / RandomSelecting → next game
+          await waitForNextGame(
+            player1,
+            player2,
+            null,
+            this.lastGameId,
+            this.at === 'resting' ? 45000 : 60000,
+            this.screenshot,
+            this.games + 1,
+            this.at === 'after-resting',
+          );
+          break;
+        default:
+          throw new Error(`[ScenarioRunner] '${step}' needs a game, but the series is at '${this.at}'`);
+      }
+      this.games++;
+      this.lastGameId = getGameIdFromUrl(player1.url()) || '';
+      this.at = 'game';
+      await verifyGameOpening(player1, player2, this.seriesId);
+      return;
+    }
+
+    throw new Error(`[ScenarioRunner] '${step}' needs '${target}', but the series is at '${this.at}'`);
+  }
+
+  // ===== Steps =====
+
+  /**
+   * Execute one step, then check the series invariants (series-invariants.ts)
+   * against a fresh API snapshot.
+   */
+  async run(step: ScenarioStep): Promise<void> {
+    console.log(`[ScenarioRunner] Test ${this.scenario.id}: ${step} (at=${this.at}, games=${this.games})`);
+    await this.dispatch(step);
+    await checkInvariantsVia([this.contexts.player1, this.contexts.player2], this.seriesId, `after ${step}`);
+  }
+
+  private async dispatch(step: ScenarioStep): Promise<void> {
+    switch (step) {
+      case 'pick-phase':
+        return this.ensure('ban', step);
+      case 'ban-phase':
+        return this.ensure('game', step);
+      case 'draw':
+        return this.playGame(step, 'draw');
+      case 'nostart-first-mover':
+      case 'nostart-second-mover':
+        return this.noStart(step);
+      case 'resting-confirm':
+      case 'resting-cancel-then-confirm':
+      case 'resting-cancel-then-timeout':
+      case 'resting-timeout':
+        return this.resting(step);
+      case 'both-disconnect-in-resting':
+        return this.bothDisconnectInResting(step);
+      case 'selecting-timeout':
+        return this.selectingTimeout(step);
+      case 'next-game':
+        return this.ensure('game', step);
+      case 'check-openings-tab':
+        return this.checkOpeningsTab(step);
+      case 'check-game-buttons':
+        return this.checkGameButtons(step);
+    }
+
+    const [side, action] = [step.slice(0, 2) as Side, step.slice(3)];
+    switch (action) {
+      case 'disconnect-in-pick':
+        return this.disconnectInPickBan(step, side, 'pick');
+      case 'disconnect-in-ban':
+        return this.disconnectInPickBan(step, side, 'ban');
+      case 'resign':
+        return this.playGame(step, `${side}-resign` as const);
+      case 'forfeit-before-moves':
+        return this.forfeit(step, side, false);
+      case 'forfeit-after-moves':
+        return this.forfeit(step, side, true);
+      case 'disconnect-in-game':
+        return this.disconnectInGame(step, side);
+      case 'disconnect-in-resting':
+        return this.disconnectInResting(step, side);
+      case 'reconnect':
+        return this.reconnect(step, side);
+      case 'blip-in-pick':
+        return this.blipInPickBan(step, side, 'pick');
+      case 'blip-in-ban':
+        return this.blipInPickBan(step, side, 'ban');
+      case 'blip-in-game':
+      case 'flaky-in-game':
+        return this.faultInGame(step, side, action);
+      case 'blip-in-resting':
+        return this.blipInResting(step, side);
+      case 'slow-resting-confirm':
+        return this.slowRestingConfirm(step, side);
+    }
+    throw new Error(`[ScenarioRunner] Unknown step '${step}'`);
+  }
+
+  private async disconnectInPickBan(step: ScenarioStep, side: Side, phase: 'pick' | 'ban'): Promise<void> {
+    await this.ensure(phase, step);
+    const leaver = this.page(side);
+    const stayer = this.page(other(side));
+
+    await waitForPhase(stayer, phase === 'pick' ? 'Pick Phase' : 'Ban Phase');
+    // Wait for at least one WS ping (3s interval) so lastSeenAt is set in the DB
+    await leaver.waitForTimeout(4000);
+
+    await executePickBanBehavior(stayer, 'confirm', phase);
+    await this.shoot(`${phase}-confirmed`, other(side));
+
+    console.log(`[ScenarioRunner] Closing ${side} page to simulate disconnect in ${phase}...`);
+    await leaver.close();
+    // handleAborted() shows an alert on the remaining page
+    stayer.on('dialog', dialog => dialog.dismiss());
+    this.at = 'done';
+  }
+
+  private async playGame(step: ScenarioStep, result: 'p1-resign' | 'p2-resign' | 'draw'): Promise<void> {
+    await this.ensure('game', step);
+    const { player1, player2 } = this.contexts;
+    this.lastGameId = await playOneGame(player1, player2, this.username('p1'), this.username('p2'), result);
+    if (result === 'draw') {
+      this.scores[0] += 0.5;
+      this.scores[1] += 0.5;
+    } else {
+      this.win(result === 'p1-resign' ? 'p2' : 'p1');
+    }
+    await this.shootBoth(`game${this.games}-result`);
+    this.at = 'resting';
+  }
+
+  private async noStart(step: 'nostart-first-mover' | 'nostart-second-mover'): Promise<void> {
+    await this.ensure('game', step);
+    const { player1, player2 } = this.contexts;
+    await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+    await expect(player2.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+
+    // isMyTurn checks the FEN's active color → identifies the first mover (startColor)
+    const firstMover: Side = (await isMyTurn(player1, this.username('p1'))) ? 'p1' : 'p2';
+    console.log(`[ScenarioRunner] First mover: ${this.username(firstMover)}`);
+
+    if (step === 'nostart-second-mover') {
+      await makeAnyMove(this.page(firstMover), this.username(firstMover));
+      await this.shootBoth(`game${this.games}-first-move`);
+      this.win(firstMover);
+    } else {
+      this.win(other(firstMover));
+    }
+
+    // NoStart fires ~26s after game creation → Resting
+    console.log('[ScenarioRunner] Waiting for NoStart timeout (~26 seconds)...');
+    await Promise.all([waitForRestingUI(player1, 45000), waitForRestingUI(player2, 45000)]);
+    await this.shootBoth('resting-after-nostart');
+    this.at = 'resting';
+  }
+
+  private async forfeit(step: ScenarioStep, side: Side, afterMoves: boolean): Promise<void> {
+    await this.ensure('game', step);
+    const { player1, player2 } = this.contexts;
+    const forfeiter = this.page(side);
+    await expect(forfeiter.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+
+    if (afterMoves) {
+      await playBothMoves(player1, player2, this.username('p1'), this.username('p2'));
+      await this.shootBoth('after-moves');
+    }
+
+    await clickSeriesForfeitButton(forfeiter);
+    await this.shoot('forfeit-confirm-dialog', side);
+    await confirmSeriesForfeit(forfeiter);
+
+    // Wait for game to end
+    await forfeiter.waitForTimeout(2000);
+    await this.shootBoth('game-ended');
+    this.at = 'done';
+  }
+
+  private async disconnectInGame(step: ScenarioStep, side: Side): Promise<void> {
+    await this.ensure('game', step);
+    const { player1, player2 } = this.contexts;
+
+    // Both move first so the game is not abortable
+    await playBothMoves(player1, player2, this.username('p1'), this.username('p2'));
+    await this.shootBoth(`game${this.games}-after-moves`);
+
+    console.log(`[ScenarioRunner] Closing ${side} page to simulate disconnect during game ${this.games}...`);
+    await this.page(side).close();
+    await claimVictoryAfterDisconnect(this.page(other(side)), this.username(other(side)), this.screenshot);
+    this.win(other(side));
+    this.at = 'resting';
+  }
+
+  private async resting(step: ScenarioStep): Promise<void> {
+    await this.ensure('resting', step);
+    const { player1, player2 } = this.contexts;
+
+    await Promise.all([waitForRestingUI(player1), waitForRestingUI(player2)]);
+    await this.shootBoth('resting-ui');
+
+    switch (step) {
+      case 'resting-confirm':
+        await Promise.all([confirmNextInResting(player1), confirmNextInResting(player2)]);
+        break;
+      case 'resting-cancel-then-confirm':
+        await this.restingConfirmThenCancel();
+        // P1 re-confirms, P2 sees "Opponent is Ready!" and confirms → countdown on both
+        await confirmNextInResting(player1);
+        await expect(player1.locator(selectors.restingCancelBtn)).toBeVisible({ timeout: 3000 });
+        await expect(player2.locator(selectors.restingOpponentReady)).toBeVisible({ timeout: 5000 });
+        await confirmNextInResting(player2);
+        await expect(player1.locator(selectors.restingCountdown)).toBeVisible({ timeout: 5000 });
+        await expect(player2.locator(selectors.restingCountdown)).toBeVisible({ timeout: 5000 });
+        await this.shootBoth('resting-countdown');
+        break;
+      case 'resting-cancel-then-timeout':
+        await this.restingConfirmThenCancel();
+        console.log('[ScenarioRunner] NOT clicking Next Game - waiting for 30s timeout...');
+        break;
+      case 'resting-timeout':
+        console.log('[ScenarioRunner] NOT clicking Next Game - waiting for 30s timeout...');
+        break;
+    }
+
+    this.at = isSeriesDecided(this.scores) ? 'done' : 'after-resting';
+  }
+
+  /**
+   * P1 confirms → P2 sees "Opponent is Ready!" → P1 cancels → P2 reverts to "Waiting..."
+   */
+  private async restingConfirmThenCancel(): Promise<void> {
+    const { player1, player2 } = this.contexts;
+
+    const timeLeft = await getRestingTimeLeft(player1);
+    console.log(`[ScenarioRunner] Resting timer: ${timeLeft}s`);
+    expect(timeLeft).toBeGreaterThan(0);
+    expect(timeLeft).toBeLessThanOrEqual(30);
+    await expect(player1.locator(selectors.restingConfirmBtn)).toBeVisible();
+    await expect(player2.locator(selectors.restingConfirmBtn)).toBeVisible();
+    await expect(player1.locator(selectors.restingOpponentStatus)).toBeVisible();
+
+    await confirmNextInResting(player1);
+    await expect(player1.locator(selectors.restingCancelBtn)).toBeVisible({ timeout: 3000 });
+    await expect(player2.locator(selectors.restingOpponentReady)).toBeVisible({ timeout: 5000 });
+    await this.shootBoth('resting-p1-confirmed');
+
+    await cancelNextInResting(player1);
+    await expect(player1.locator(selectors.restingConfirmBtn)).toBeVisible({ timeout: 3000 });
+    await expect(player2.locator(selectors.restingOpponentReady)).not.toBeVisible({ timeout: 5000 });
+    await expect(player2.locator(selectors.restingOpponentStatus)).toBeVisible();
+    await this.shootBoth('resting-p1-cancelled');
+  }
+
+  private async disconnectInResting(step: ScenarioStep, side: Side): Promise<void> {
+    await this.ensure('resting', step);
+    const stayer = this.page(other(side));
+
+    await Promise.all([waitForRestingUI(this.contexts.player1), waitForRestingUI(this.contexts.player2)]);
+    // Wait for ping polls to register lastSeenAt (3s interval)
+    await stayer.waitForTimeout(4000);
+
+    console.log(`[ScenarioRunner] Closing ${side} page to simulate disconnect during Resting...`);
+    await this.page(side).close();
+
+    // Stayer's poll (3s) sees the opponent offline after the 5s threshold → ~12s worst case
+    await expect(stayer.locator('.series-rest__timer:has-text("Opponent left")')).toBeVisible({ timeout: 15000 });
+    await expect(
+      stayer.locator('.series-rest__opponent-status:has-text("Opponent disconnected")')
+    ).toBeVisible({ timeout: 3000 });
+    await this.shoot('opponent-left-warning', other(side));
+    this.at = 'done';
+  }
+
+  private async bothDisconnectInResting(step: ScenarioStep): Promise<void> {
+    await this.ensure('resting', step);
+    const { player1, player2 } = this.contexts;
+
+    await Promise.all([waitForRestingUI(player1), waitForRestingUI(player2)]);
+    // Wait for WS pings to register lastSeenAt (3s interval)
+    await player1.waitForTimeout(4000);
+
+    console.log('[ScenarioRunner] Closing both pages to simulate both-DC...');
+    await player2.close();
+    await player1.close();
+    this.at = 'done';
+  }
+
+  private async selectingTimeout(step: ScenarioStep): Promise<void> {
+    if (this.at === 'resting') await this.resting('resting-confirm');
+    if (this.at !== 'after-resting') {
+      throw new Error(`[ScenarioRunner] '${step}' needs Selecting, but the series is at '${this.at}'`);
+    }
+    const { player1, player2 } = this.contexts;
+    const api = SeriesApiClient.for(player1);
+
+    // Loser never clicks: server picks at random 30s after Selecting starts
+    console.log('[ScenarioRunner] Waiting for Selecting timeout (30s)...');
+    const { matched: selecting } = await api.poll(this.seriesId, s => s.phaseName === 'Selecting', {
+      retries: 25,
+      intervalMs: 2000,
+    });
+    expect(selecting).toBe(true);
+    const { matched } = await api.poll(this.seriesId, s => s.games.length > this.games, {
+      retries: 25,
+      intervalMs: 2000,
+    });
+    expect(matched).toBe(true);
+
+    await Promise.all([waitForGamePage(player1, 30000), waitForGamePage(player2, 30000)]);
+    this.games++;
+    this.lastGameId = getGameIdFromUrl(player1.url()) || '';
+    await this.shootBoth(`game${this.games}-after-selecting-timeout`);
+    this.at = 'game';
+  }
+
+  private async reconnect(step: ScenarioStep, side: Side): Promise<void> {
+    const page = this.page(side);
+
+    if (this.at === 'pick') {
+      await waitForPhase(this.contexts.player1, 'Pick Phase');
+      await waitForPhase(this.contexts.player2, 'Pick Phase');
+    }
+
+    await verifyReconnectionBanner(page, this.seriesId, this.screenshot);
+
+    switch (this.at) {
+      case 'pick':
+      case 'ban':
+        await expect(page.locator('main.series-pick')).toBeVisible({ timeout: 10000 });
+        await waitForSnabbdomReady(page);
+        expect(page.url()).toContain(this.seriesId);
+        break;
+      case 'game':
+        await expect(page.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+        break;
+      case 'resting':
+        // Round view with resting overlay
+        await expect(page.locator('.rclock').first()).toBeVisible({ timeout: 10000 });
+        break;
+      default:
+        throw new Error(`[ScenarioRunner] '${step}' cannot run at '${this.at}'`);
+    }
+
+    // Wait for the ping poll to re-register lastSeenAt after reconnection
+    await page.waitForTimeout(4000);
+  }
+
+  private async checkOpeningsTab(step: ScenarioStep): Promise<void> {
+    await this.ensure('game', step);
+    await Promise.all([
+      verifyOpeningsTab(this.contexts.player1, this.seriesId, this.username('p1'), this.screenshot, this.games),
+      verifyOpeningsTab(this.contexts.player2, this.seriesId, this.username('p2'), this.screenshot, this.games),
+    ]);
+  }
+
+  private async checkGameButtons(step: ScenarioStep): Promise<void> {
+    await this.ensure('game', step);
+    const page = this.contexts.player1;
+    await expect(page.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+    await expect(page.locator(gameSelectors.seriesForfeitBtn)).toBeVisible({ timeout: 5000 });
+    await expect(page.locator(gameSelectors.resignBtn)).toBeVisible({ timeout: 5000 });
+
+    // forfeit (series-forfeit), takeback (takeback-yes), draw (draw-yes), resign
+    // (+ analysis / board menu, which may not be visible during play)
+    const ricons = page.locator('.ricons');
+    await expect(ricons).toBeVisible({ timeout: 5000 });
+    const buttonCount = await ricons.locator('button.fbt').count();
+    console.log(`[ScenarioRunner] Button count in .ricons: ${buttonCount}`);
+    expect(buttonCount).toBeGreaterThanOrEqual(4);
+    await this.shoot('game-buttons', 'p1');
+  }
+
+  // ===== Network Faults =====
+
+  private async blipInPickBan(step: ScenarioStep, side: Side, phase: 'pick' | 'ban'): Promise<void> {
+    await this.ensure(phase, step);
+    const page = this.page(side);
+    const name = phase === 'pick' ? 'Pick Phase' : 'Ban Phase';
+    await Promise.all([waitForPhase(this.contexts.player1, name), waitForPhase(this.contexts.player2, name)]);
+    // Wait for at least one WS ping (3s interval) so lastSeenAt is set in the DB
+    await page.waitForTimeout(4000);
+
+    await this.faults(side).outage(page, BLIP_MS);
+
+    // Still in the same phase on both sides; the next step completes it as usual
+    const snapshot = await SeriesApiClient.for(this.page(other(side))).get(this.seriesId);
+    expect(snapshot.status).toBe(SeriesStatus.Started);
+    await waitForPhase(page, name);
+    await waitForSnabbdomReady(page);
+    await this.shootBoth(`${phase}-after-blip`);
+  }
+
+  private async faultInGame(step: ScenarioStep, side: Side, fault: 'blip-in-game' | 'flaky-in-game'): Promise<void> {
+    await this.ensure('game', step);
+    const { player1, player2 } = this.contexts;
+    const page = this.page(side);
+
+    // Both move first so a dropped frame cannot turn into a NoStart/abort
+    await playBothMoves(player1, player2, this.username('p1'), this.username('p2'));
+
+    if (fault === 'blip-in-game') await this.faults(side).outage(page, BLIP_MS);
+    else await this.faults(side).flaky(page, 10000);
+
+    // Game still running for both: no Resting overlay, no disconnect claim
+    await expect(page.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
+    await page.waitForTimeout(4000);
+    await expect(player1.locator(selectors.restingFollowUp)).not.toBeVisible();
+    await expect(player2.locator(selectors.restingFollowUp)).not.toBeVisible();
+    expect(getGameIdFromUrl(page.url())).toBe(getGameIdFromUrl(this.page(other(side)).url()));
+    await this.shootBoth(`game${this.games}-after-${fault}`);
+  }
+
+  private async blipInResting(step: ScenarioStep, side: Side): Promise<void> {
+    await this.ensure('resting', step);
+    const stayer = this.page(other(side));
+
+    await Promise.all([waitForRestingUI(this.contexts.player1), waitForRestingUI(this.contexts.player2)]);
+    // Wait for ping polls to register lastSeenAt (3s interval)
+    await stayer.waitForTimeout(4000);
+
+    await this.faults(side).outage(this.page(side), BLIP_MS);
+
+    // One more poll on the stayer's side must still see the opponent online
+    await stayer.waitForTimeout(4000);
+    await expect(stayer.locator('.series-rest__timer:has-text("Opponent left")')).not.toBeVisible();
+    await expect(this.page(side).locator(selectors.restingConfirmBtn)).toBeVisible({ timeout: 10000 });
+    await this.shootBoth('resting-after-blip');
+  }
+
+  /**
+   * Both confirm Resting while `side` is on a high-latency link, so the confirm
+   * and the 3s countdown frames arrive late for that player.
+   */
+  private async slowRestingConfirm(step: ScenarioStep, side: Side): Promise<void> {
+    await this.ensure('resting', step);
+    const { player1, player2 } = this.contexts;
+    await Promise.all([waitForRestingUI(player1), waitForRestingUI(player2)]);
+
+    const restore = await this.faults(side).throttle(this.page(side), { latencyMs: 1500 });
+    try {
+      await Promise.all([confirmNextInResting(player1), confirmNextInResting(player2)]);
+      await expect(player1.locator(selectors.restingCountdown)).toBeVisible({ timeout: 10000 });
+      await expect(player2.locator(selectors.restingCountdown)).toBeVisible({ timeout: 10000 });
+      await this.shootBoth('resting-countdown-throttled');
+      // Keep the latency through the countdown
+      await player1.waitForTimeout(3000);
+    } finally {
+      await restore();
+    }
+    this.at = isSeriesDecided(this.scores) ? 'done' : 'after-resting';
+  }
+
+  // ===== Verification =====
+
+  /** A page for API calls: any player page still open, else a fresh one */
+  private async observer(): Promise<Page> {
+    const { player1, player2, player1Context } = this.contexts;
+    if (!player1.isClosed()) return player1;
+    if (!player2.isClosed()) return player2;
+    this.verifyPage ??= await player1Context.newPage();
+    return this.verifyPage;
+  }
+
+  /**
+   * Check the final state against scenario.expect plus the scores and game count
+   * accumulated from the steps. With scenario.endByForfeit the series is then
+   * forfeited via the API.
+   */
+  async verify(): Promise<void> {
+    const { status, winner = null, forfeitBy = null, finishedPage = false } = this.scenario.expect;
+    const observer = await this.observer();
+
+    if (status === 'aborted') {
+      // 25 retries × 2s covers the 30s phase/Resting timeout + DC detection
+      const aborted = await isSeriesAborted(observer, this.seriesId, 25);
+      expect(aborted).toBe(true);
+      return;
+    }
+
+    if (status === 'finished') {
+      if (finishedPage) await this.verifyFinishedPages(winner, forfeitBy !== null);
+      expect(await isSeriesFinished(observer, this.seriesId, 10)).toBe(true);
+    }
+
+    // Game results reach the series asynchronously
+    const expectedTotal = this.scores[0] + this.scores[1];
+    const { snapshot } = await SeriesApiClient.for(observer).poll(
+      this.seriesId,
+      s =>
+        s.games.length === this.games &&
+        (forfeitBy !== null || s.players[0].score + s.players[1].score === expectedTotal),
+      { retries: 10 },
+    );
+    expect(snapshot).not.toBeNull();
+    console.log(`[ScenarioRunner] Test ${this.scenario.id} final: ${JSON.stringify(snapshot)}`);
+    assertSeriesInvariants(snapshot!, 'at the end');
+
+    const p1Index = playerIndexOf(snapshot!, this.username('p1'));
+    expect(p1Index).not.toBeNull();
+    const toSide = (index: PlayerIndex | null): Side | null =>
+      index === null ? null : index === p1Index ? 'p1' : 'p2';
+
+    expect(snapshot!.status).toBe(status === 'finished' ? SeriesStatus.Finished : SeriesStatus.Started);
+    expect(toSide(snapshot!.winner)).toBe(winner);
+    expect(toSide(snapshot!.forfeitBy)).toBe(forfeitBy);
+    expect(snapshot!.games.length).toBe(this.games);
+    // Forfeit ends the series without scoring the running game
+    if (forfeitBy === null) {
+      const p2Index = p1Index === 0 ? 1 : 0;
+      expect([snapshot!.players[p1Index!].score, snapshot!.players[p2Index].score]).toEqual(this.scores);
+    }
+
+    if (this.scenario.endByForfeit) await this.endByForfeit(observer);
+  }
+
+  /** End a series the scenario leaves running: forfeit via the API and check it finished */
+  private async endByForfeit(observer: Page): Promise<void> {
+    expect(await forfeitSeriesViaApi(observer, this.seriesId)).toBe(true);
+    expect(await isSeriesFinished(observer, this.seriesId, 5)).toBe(true);
+    console.log(`[ScenarioRunner] Test ${this.scenario.id}: series forfeited and finished`);
+  }
+
+  private async verifyFinishedPages(winner: Side | null, forfeit: boolean): Promise<void> {
+    for (const side of ['p1', 'p2'] as const) {
+      const page = this.page(side);
+      if (page.isClosed()) continue;
+
+      // Resting forfeit only lands after the 30s Resting timeout
+      await waitForFinishedPage(page, this.seriesId, 40000);
+      const { banner } = await verifyFinishedPageUI(page, this.games);
+      const result = side === winner ? 'Victory!' : 'Defeat';
+      expect(banner).toBe(forfeit ? `${result} (forfeit)` : result);
+      await this.shoot('finished-page', side);
+    }
+  }
+}
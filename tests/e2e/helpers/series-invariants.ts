@@ -0,0 +1,188 @@
+import { Page } from '@playwright/test';
+import {
+  SeriesApiClient,
+  SeriesStatus,
+  type PlayerIndex,
+  type SeriesOpening,
+  type SeriesSnapshot,
+} from './series-api';
+
+/**
+ * Series Invariants
+ *
+ * Rules every `GET /series/{id}` snapshot must satisfy, whatever the scenario.
+ * ScenarioRunner (series-flow.ts) and runRandomWalk (series-walk.ts) check
+ * them after every step, so server-side corruption surfaces at the step that
+ * caused it instead of as a confusing UI failure later:
+ *
+ *   assertSeriesInvariants(snapshot, 'after resting-timeout');
+ *
+ * Each invariant returns human-readable problems; an empty list means it holds.
+ */
+
+export interface SeriesInvariant {
+  name: string;
+  check(snapshot: SeriesSnapshot): string[];
+}
+
+export interface InvariantViolation {
+  invariant: string;
+  detail: string;
+}
+
+/**
+ * Thrown when a snapshot breaks one or more invariants.
+ */
+export class SeriesInvariantError extends Error {
+  constructor(
+    readonly seriesId: string,
+    readonly context: string,
+    readonly violations: InvariantViolation[],
+  ) {
+    super(
+      `Series ${seriesId} broke ${violations.length} invariant(s) ${context}:\n  ` +
+        violations.map(v => `${v.invariant}: ${v.detail}`).join('\n  '),
+    );
+    this.name = 'SeriesInvariantError';
+  }
+}
+
+const PICKS_PER_PLAYER = 5;
+const BANS_PER_PLAYER = 2;
+
+const players: PlayerIndex[] = [0, 1];
+
+function picksOf(snapshot: SeriesSnapshot, index: PlayerIndex): SeriesOpening[] {
+  return snapshot.openings.filter(o => o.owner === index && o.source === 'pick');
+}
+
+function bansOf(snapshot: SeriesSnapshot, index: PlayerIndex): SeriesOpening[] {
+  return snapshot.openings.filter(o => o.owner === index && o.source === 'ban');
+}
+
+/** Values that occur more than once */
+function duplicates<T>(values: T[]): T[] {
+  return [...new Set(values.filter((v, i) => values.indexOf(v) !== i))];
+}
+
+// ===== Invariants =====
+
+export const seriesInvariants: SeriesInvariant[] = [
+  {
+    // Never more than 5 picks / 2 bans; exactly that once a game exists (a
+    // series aborted or forfeited during Pick/Ban finishes with fewer)
+    name: 'picks-and-bans',
+    check: s => {
+      const complete = s.status !== SeriesStatus.Aborted && s.games.length > 0;
+      return players.flatMap(i => {
+        const picks = picksOf(s, i).length;
+        const bans = bansOf(s, i).length;
+        const problems: string[] = [];
+        if (complete ? picks !== PICKS_PER_PLAYER : picks > PICKS_PER_PLAYER) {
+          problems.push(`player ${i} has ${picks} picks in ${s.phaseName}`);
+        }
+        if (complete ? bans !== BANS_PER_PLAYER : bans > BANS_PER_PLAYER) {
+          problems.push(`player ${i} has ${bans} bans in ${s.phaseName}`);
+        }
+        return problems;
+      });
+    },
+  },
+  {
+    // A ban names one of the opponent's picks (see computeRemainingPicks in openings-tab.ts)
+    name: 'bans-target-opponent-picks',
+    check: s =>
+      players.flatMap(i => {
+        const opponentPicks = new Set(picksOf(s, (1 - i) as PlayerIndex).map(o => o.name));
+        return bansOf(s, i)
+          .filter(ban => !opponentPicks.has(ban.name))
+          .map(ban => `player ${i} banned "${ban.name}", which is not a pick of player ${1 - i}`);
+      }),
+  },
+  {
+    // One opening per round and one game per opening
+    name: 'openings-used-once',
+    check: s => [
+      ...duplicates(s.openings.map(o => o.usedInRound).filter((r): r is number => r !== null)).map(
+        round => `more than one opening has usedInRound=${round}`,
+      ),
+      ...duplicates(s.games.map(g => g.openingId)).map(id => `opening ${id} was played in more than one game`),
+    ],
+  },
+  {
+    // Scores are derived from finished games (a series forfeit can end a game without a result)
+    name: 'scores-match-results',
+    check: s => {
+      if (s.forfeitBy !== null) return [];
+      const expected = [0, 0];
+      for (const g of s.games) {
+        if (g.result === 'draw') {
+          expected[0] += 0.5;
+          expected[1] += 0.5;
+        } else if (g.result === 'white' || g.result === 'black') {
+          const winner = g.result === 'white' ? g.whitePlayer : 1 - g.whitePlayer;
+          expected[winner] += 1;
+        }
+      }
+      return players
+        .filter(i => s.players[i].score !== expected[i])
+        .map(i => `player ${i} score is ${s.players[i].score}, games[].result add up to ${expected[i]}`);
+    },
+  },
+  {
+    name: 'winner-only-when-finished',
+    check: s =>
+      s.winner !== null && s.status !== SeriesStatus.Finished
+        ? [`winner=${s.winner} while status=${s.status}`]
+        : [],
+  },
+  {
+    // Games are played from picks the opponent did not ban
+    name: 'no-game-from-banned-opening',
+    check: s => {
+      // Older payloads omit opening ids - nothing to join games against
+      if (!s.openings.some(o => o.id)) return [];
+      return s.games.flatMap(g => {
+        const opening = s.openings.find(o => o.id === g.openingId);
+        if (!opening) return [`game ${g.gameId} uses unknown opening ${g.openingId}`];
+        if (opening.source !== 'pick') return [`game ${g.gameId} uses ban entry "${opening.name}"`];
+        const banned = bansOf(s, (1 - opening.owner) as PlayerIndex).some(b => b.name === opening.name);
+        return banned ? [`game ${g.gameId} uses banned opening "${opening.name}"`] : [];
+      });
+    },
+  },
+];
+
+// ===== Checking =====
+
+export function checkSeriesInvariants(
+  snapshot: SeriesSnapshot,
+  invariants: SeriesInvariant[] = seriesInvariants,
+): InvariantViolation[] {
+  return invariants.flatMap(inv => inv.check(snapshot).map(detail => ({ invariant: inv.name, detail })));
+}
+
+/**
+ * Throw a SeriesInvariantError if the snapshot breaks any invariant.
+ * `context` says when the snapshot was taken (e.g. "after resting-timeout").
+ */
+export function assertSeriesInvariants(snapshot: SeriesSnapshot, context: string): void {
+  const violations = checkSeriesInvariants(snapshot);
+  if (violations.length > 0) throw new SeriesInvariantError(snapshot.id, context, violations);
+}
+
+/**
+ * Fetch the series through the first open page and assert its invariants.
+ * Skips silently when every page is closed or the API is unreachable.
+ */
+export async function checkInvariantsVia(pages: Page[], seriesId: string, context: string): Promise<void> {
+  const observer = pages.find(p => !p.isClosed());
+  if (!observer) return;
+
+  const snapshot = await SeriesApiClient.for(observer).tryGet(seriesId);
+  if (!snapshot) {
+    console.log(`[checkInvariantsVia] No snapshot for series ${seriesId} ${context}, skipping`);
+    return;
+  }
+  assertSeriesInvariants(snapshot, context);
+}
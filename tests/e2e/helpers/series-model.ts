@@ -0,0 +1,318 @@
+import type { PickBanBehavior } from './scenarios';
+import { SeriesStatus, type SeriesSnapshot, type PlayerIndex } from './series-api';
+import { isSeriesDecided } from './series-referee';
+
+/**
+ * Series State Machine Model
+ *
+ * A pure TypeScript model of the flow in the project README:
+ *
+ *   Picking → Banning → RandomSelecting → Playing → Resting
+ *     → |draw| RandomSelecting → Playing
+ *     → |winner| Selecting (loser chooses) → Playing
+ *     → |series done| Finished
+ *
+ * plus the abort/forfeit exits. The model picks a random *valid* next step
+ * from the current state (seeded, so a walk is reproducible from its seed),
+ * predicts the resulting state, and diffs that prediction against a
+ * `GET /series/{id}` snapshot.
+ *
+ * Players are P1/P2 from the harness' point of view (index 0/1 here), NOT the
+ * server's global index - see toLocal().
+ */
+
+// ===== Steps =====
+
+export type WalkGameOutcome =
+  | 'p1-resign'
+  | 'p2-resign'
+  | 'draw'
+  | 'p1-forfeit' // series forfeit via X button
+  | 'p2-forfeit'
+  | 'p1-disconnect' // close page mid-game → opponent claims victory
+  | 'p2-disconnect';
+
+export type RestingBehavior = 'confirm' | 'cancel-confirm' | 'timeout';
+export type SelectingBehavior = 'select' | 'timeout';
+
+export type WalkStep =
+  | { kind: 'pick'; p1: PickBanBehavior; p2: PickBanBehavior }
+  | { kind: 'ban'; p1: PickBanBehavior; p2: PickBanBehavior }
+  | { kind: 'phase-disconnect'; phase: 'pick' | 'ban' } // P1 confirms, P2 closes page
+  | { kind: 'game'; outcome: WalkGameOutcome }
+  | { kind: 'resting'; behavior: RestingBehavior }
+  | { kind: 'selecting'; behavior: SelectingBehavior };
+
+export function describeStep(step: WalkStep): string {
+  switch (step.kind) {
+    case 'pick':
+    case 'ban':
+      return `${step.kind}(${step.p1}/${step.p2})`;
+    case 'phase-disconnect':
+      return `${step.phase}-disconnect`;
+    case 'game':
+      return `game(${step.outcome})`;
+    case 'resting':
+    case 'selecting':
+      return `${step.kind}(${step.behavior})`;
+  }
+}
+
+// ===== State =====
+
+export type ModelPhase =
+  | 'Picking'
+  | 'Banning'
+  | 'Playing'
+  | 'Resting'
+  | 'Selecting'
+  | 'RandomSelecting'
+  | 'Finished'
+  | 'Aborted';
+
+export interface WalkState {
+  phase: ModelPhase;
+  scores: [number, number];
+  games: number; // games created so far (incl. the one in progress)
+  pools: [number, number]; // remaining (unbanned, unused) picks per player
+  lastGameWinner: PlayerIndex | null; // null = draw
+  winner: PlayerIndex | null;
+  forfeitBy: PlayerIndex | null;
+  /** The harness can no longer drive this series (page closed, series over) */
+  terminal: boolean;
+}
+
+export function initialWalkState(): WalkState {
+  return {
+    phase: 'Picking',
+    scores: [0, 0],
+    games: 0,
+    pools: [3, 3],
+    lastGameWinner: null,
+    winner: null,
+    forfeitBy: null,
+    terminal: false,
+  };
+}
+
+// Scoring rule lives in the referee (series-referee.ts); re-exported for existing callers
+export { isSeriesDecided };
+
+// ===== Seeded RNG =====
+
+export type Rng = () => number;
+
+/** mulberry32 - small, fast, deterministic */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function weighted<T>(rng: Rng, options: Array<[T, number]>): T {
+  const total = options.reduce((sum, [, w]) => sum + w, 0);
+  let r = rng() * total;
+  for (const [value, w] of options) {
+    r -= w;
+    if (r < 0) return value;
+  }
+  return options[options.length - 1][0];
+}
+
+// ===== Step Generation =====
+
+export interface WalkOptions {
+  /** Allow 30s server timeouts (pick/ban/resting/selecting) - slow but covers auto-fill */
+  allowTimeouts: boolean;
+  /** Allow disconnect steps (terminal; game disconnect waits ~60-120s for claim victory) */
+  allowDisconnects: boolean;
+}
+
+export const defaultWalkOptions: WalkOptions = {
+  allowTimeouts: true,
+  allowDisconnects: true,
+};
+
+function pickBanBehavior(rng: Rng, opts: WalkOptions): PickBanBehavior {
+  if (!opts.allowTimeouts) return 'confirm';
+  return weighted<PickBanBehavior>(rng, [
+    ['confirm', 6],
+    ['full-timeout', 1],
+    ['partial-timeout', 1],
+    ['none-timeout', 1],
+  ]);
+}
+
+/**
+ * Outcomes whose follow-up the model can predict from the current state.
+ * A decisive game whose loser has no openings left (and that does not end
+ * the series) is excluded - the server rule for that case is not modelled.
+ */
+export function allowedOutcomes(state: WalkState, opts: WalkOptions = defaultWalkOptions): WalkGameOutcome[] {
+  const outcomes: WalkGameOutcome[] = ['draw', 'p1-forfeit', 'p2-forfeit'];
+  for (const [outcome, winner] of [['p2-resign', 0], ['p1-resign', 1]] as const) {
+    const loser = 1 - winner;
+    const scores: [number, number] = [...state.scores];
+    scores[winner] += 1;
+    if (isSeriesDecided(scores) || state.pools[loser] > 0) outcomes.push(outcome);
+  }
+  if (opts.allowDisconnects) outcomes.push('p1-disconnect', 'p2-disconnect');
+  return outcomes;
+}
+
+/**
+ * Choose a random valid next step for `state`, or null if the walk is over.
+ */
+export function chooseStep(state: WalkState, rng: Rng, opts: WalkOptions = defaultWalkOptions): WalkStep | null {
+  if (state.terminal) return null;
+
+  switch (state.phase) {
+    case 'Picking':
+    case 'Banning': {
+      const kind = state.phase === 'Picking' ? 'pick' : 'ban';
+      if (opts.allowDisconnects && rng() < 0.05) return { kind: 'phase-disconnect', phase: kind };
+      return { kind, p1: pickBanBehavior(rng, opts), p2: pickBanBehavior(rng, opts) };
+    }
+    case 'Playing': {
+      const weights: Record<WalkGameOutcome, number> = {
+        'p1-resign': 10,
+        'p2-resign': 10,
+        draw: 6,
+        'p1-forfeit': 1,
+        'p2-forfeit': 1,
+        'p1-disconnect': 0.5,
+        'p2-disconnect': 0.5,
+      };
+      const outcome = weighted(rng, allowedOutcomes(state, opts).map(o => [o, weights[o]] as [WalkGameOutcome, number]));
+      return { kind: 'game', outcome };
+    }
+    case 'Resting':
+      return {
+        kind: 'resting',
+        behavior: weighted<RestingBehavior>(rng, [
+          ['confirm', 6],
+          ['cancel-confirm', 2],
+          ['timeout', opts.allowTimeouts ? 1 : 0],
+        ]),
+      };
+    case 'Selecting':
+      return {
+        kind: 'selecting',
+        behavior: weighted<SelectingBehavior>(rng, [
+          ['select', 6],
+          ['timeout', opts.allowTimeouts ? 1 : 0],
+        ]),
+      };
+    default:
+      return null;
+  }
+}
+
+// ===== Transitions =====
+
+function finish(state: WalkState, winner: PlayerIndex | null, forfeitBy: PlayerIndex | null = null): WalkState {
+  return { ...state, phase: 'Finished', winner, forfeitBy, terminal: true };
+}
+
+/**
+ * Predict the state after `step`. RandomSelecting is transient - the harness
+ * only observes the game page after it, so draws and Selecting lead straight
+ * to Playing with `games + 1`.
+ */
+export function applyStep(state: WalkState, step: WalkStep): WalkState {
+  switch (step.kind) {
+    case 'pick':
+      return { ...state, phase: 'Banning' };
+    case 'ban':
+      return { ...state, phase: 'Playing', games: 1 };
+    case 'phase-disconnect':
+      return { ...state, phase: 'Aborted', terminal: true };
+    case 'game': {
+      const scores: [number, number] = [...state.scores];
+      switch (step.outcome) {
+        case 'p1-forfeit':
+          return finish(state, 1, 0);
+        case 'p2-forfeit':
+          return finish(state, 0, 1);
+        case 'draw':
+          scores[0] += 0.5;
+          scores[1] += 0.5;
+          return { ...state, scores, phase: 'Resting', lastGameWinner: null };
+        default: {
+          // resign or disconnect: the other player wins the game
+          const winner: PlayerIndex = step.outcome.startsWith('p1') ? 1 : 0;
+          scores[winner] += 1;
+          const disconnected = step.outcome.endsWith('disconnect');
+          return { ...state, scores, phase: 'Resting', lastGameWinner: winner, terminal: disconnected };
+        }
+      }
+    }
+    case 'resting': {
+      if (isSeriesDecided(state.scores)) {
+        return finish(state, state.scores[0] > state.scores[1] ? 0 : 1);
+      }
+      if (state.pools[0] + state.pools[1] === 0) return finish(state, null); // pool exhaustion → draw
+      if (state.lastGameWinner === null) return { ...state, phase: 'Playing', games: state.games + 1 };
+      return { ...state, phase: 'Selecting' };
+    }
+    case 'selecting':
+      return { ...state, phase: 'Playing', games: state.games + 1 };
+  }
+}
+
+// ===== Checking against the Series API =====
+
+/**
+ * Map the server's global player index to the harness' P1/P2.
+ */
+export function toLocal(index: PlayerIndex | null, p1Index: PlayerIndex): PlayerIndex | null {
+  if (index === null) return null;
+  return index === p1Index ? 0 : 1;
+}
+
+/**
+ * Refresh the parts of the state the server decides at random
+ * (which pool a RandomSelecting draw consumed).
+ */
+export function syncPools(state: WalkState, remaining: [number, number]): WalkState {
+  return { ...state, pools: remaining };
+}
+
+/**
+ * Compare a predicted state with a snapshot. Returns human-readable
+ * mismatches; an empty array means the server agrees with the model.
+ */
+export function diffAgainstSnapshot(expected: WalkState, snapshot: SeriesSnapshot, p1Index: PlayerIndex): string[] {
+  const diffs: string[] = [];
+  const p2Index: PlayerIndex = p1Index === 0 ? 1 : 0;
+  const check = (label: string, actual: unknown, want: unknown) => {
+    if (actual !== want) diffs.push(`${label}: expected ${JSON.stringify(want)}, got ${JSON.stringify(actual)}`);
+  };
+
+  switch (expected.phase) {
+    case 'Aborted':
+      check('status', snapshot.status, SeriesStatus.Aborted);
+      return diffs;
+    case 'Finished':
+      check('status', snapshot.status, SeriesStatus.Finished);
+      check('winner', toLocal(snapshot.winner, p1Index), expected.winner);
+      check('forfeitBy', toLocal(snapshot.forfeitBy, p1Index), expected.forfeitBy);
+      break;
+    default:
+      check('status', snapshot.status, SeriesStatus.Started);
+      check('phaseName', snapshot.phaseName, expected.phase);
+  }
+
+  // Forfeit ends the series without scoring the running game
+  if (expected.forfeitBy === null) {
+    check('score P1', snapshot.players[p1Index].score, expected.scores[0]);
+    check('score P2', snapshot.players[p2Index].score, expected.scores[1]);
+  }
+  check('games', snapshot.games.length, expected.games);
+  return diffs;
+}
@@ -0,0 +1,233 @@
+import { SeriesStatus, type PlayerIndex, type SeriesSnapshot, type SeriesStatusId } from './series-api';
+import type { Rng } from './series-model';
+import type { GameResult } from './series';
+import { isNaturalOutcome, outcomeNotation, scoringResult } from './game-outcome';
+
+/**
+ * Series Referee (test oracle)
+ *
+ * Reference implementation of the scoring rules from the project README,
+ * independent of the server:
+ *
+ * - win = 1, draw = 0.5; first to 2.5 with a lead wins the series
+ * - tied after 5 games (2.5-2.5) → sudden death until someone leads
+ * - every game uses one opening; when all 6 (3 + 3) are used without a
+ *   winner, the series ends as a draw (Test 17)
+ * - after a draw the next opening is random (RandomSelecting), after a
+ *   decisive game the loser selects from their own pool (Selecting)
+ *
+ *   const verdict = SeriesReferee.judge(parseSeriesResult('1 - 1/2 - 1'), [2, 1]);
+ *   // → { status: Finished, winner: 0, scores: [2.5, 0.5], nextPhase: 'Finished', ... }
+ *
+ * Players are P1/P2 (index 0/1), like series-model.ts - see toLocal() there.
+ */
+
+export type RefereeGame = GameResult; // parseSeriesResult output
+
+export type RefereeNextPhase = 'RandomSelecting' | 'Selecting' | 'Finished';
+
+export interface RefereeVerdict {
+  status: SeriesStatusId; // Started or Finished
+  games: number; // games judged
+  scores: [number, number];
+  winner: PlayerIndex | null; // null while running and for a series draw
+  nextPhase: RefereeNextPhase;
+  selector: PlayerIndex | null; // who chooses the next opening (Selecting only)
+  suddenDeath: boolean; // the next game is a sudden death game
+}
+
+/** Thrown for sequences the rules do not allow or the referee does not model */
+export class RefereeError extends Error {
+  constructor(message: string) {
+    super(`[SeriesReferee] ${message}`);
+    this.name = 'RefereeError';
+  }
+}
+
+export const WINNING_SCORE = 2.5;
+export const REGULAR_GAMES = 5;
+export const POOL_PER_PLAYER = 3; // 5 picks - 2 bans
+
+/**
+ * Series scoring rule: first to 2.5 with a lead.
+ * Ties at 2.5+ (e.g. 2.5-2.5 after 5 games) continue as sudden death.
+ */
+export function isSeriesDecided(scores: [number, number]): boolean {
+  return Math.max(...scores) >= WINNING_SCORE && scores[0] !== scores[1];
+}
+
+/** Winner of a single game, null for a draw (checkmate, flag etc. score like resign) */
+export function gameWinner(game: RefereeGame): PlayerIndex | null {
+  const result = scoringResult(game);
+  if (result === 'draw') return null;
+  return result === 'p2-resign' ? 0 : 1;
+}
+
+/** Inverse of parseSeriesResult: ['p2-resign', 'draw', 'p1-flagged'] → '1 - 1/2 - 0T' */
+export function formatSeriesResult(games: RefereeGame[]): string {
+  return games
+    .map(g => (isNaturalOutcome(g) ? outcomeNotation[g] : g === 'draw' ? '1/2' : g === 'p2-resign' ? '1' : '0'))
+    .join(' - ');
+}
+
+function scoresOf(games: RefereeGame[]): [number, number] {
+  const scores: [number, number] = [0, 0];
+  for (const game of games) {
+    const winner = gameWinner(game);
+    if (winner === null) {
+      scores[0] += 0.5;
+      scores[1] += 0.5;
+    } else {
+      scores[winner] += 1;
+    }
+  }
+  return scores;
+}
+
+export class SeriesReferee {
+  /**
+   * Judge the series after `games`, given each player's remaining (unbanned,
+   * unused) picks at that point. Throws a RefereeError when a game follows the
+   * end of the series, or when the loser of an undecided game has no opening
+   * left to select (the server rule for that case is not modelled).
+   */
+  static judge(games: RefereeGame[], pools: [number, number]): RefereeVerdict {
+    for (let i = 1; i < games.length; i++) {
+      const prefix = games.slice(0, i);
+      if (isSeriesDecided(scoresOf(prefix))) {
+        throw new RefereeError(`game ${i + 1} played after the series was decided (${formatSeriesResult(prefix)})`);
+      }
+    }
+
+    const scores = scoresOf(games);
+    const verdict: RefereeVerdict = {
+      status: SeriesStatus.Started,
+      games: games.length,
+      scores,
+      winner: null,
+      nextPhase: 'RandomSelecting', // also the opening of game 1
+      selector: null,
+      suddenDeath: games.length >= REGULAR_GAMES,
+    };
+
+    if (isSeriesDecided(scores)) {
+      const winner: PlayerIndex = scores[0] > scores[1] ? 0 : 1;
+      return { ...verdict, status: SeriesStatus.Finished, winner, nextPhase: 'Finished', suddenDeath: false };
+    }
+    // Pool exhaustion → series draw
+    if (pools[0] + pools[1] === 0) {
+      return { ...verdict, status: SeriesStatus.Finished, nextPhase: 'Finished', suddenDeath: false };
+    }
+
+    const last = games.length > 0 ? gameWinner(games[games.length - 1]) : null;
+    if (last === null) return verdict;
+
+    const loser: PlayerIndex = last === 0 ? 1 : 0;
+    if (pools[loser] === 0) {
+      throw new RefereeError(`P${loser + 1} lost game ${games.length} with no opening left to select (not modelled)`);
+    }
+    return { ...verdict, nextPhase: 'Selecting', selector: loser };
+  }
+
+  /**
+   * Remaining pools P1/P2 after the first `round` games of a snapshot:
+   * picks the opponent did not ban whose usedInRound is unset or later.
+   */
+  static poolsAfterRound(snapshot: SeriesSnapshot, round: number, p1Index: PlayerIndex): [number, number] {
+    const remaining = (index: PlayerIndex) => {
+      const banned = new Set(
+        snapshot.openings.filter(o => o.owner !== index && o.source === 'ban').map(o => o.name),
+      );
+      return snapshot.openings.filter(
+        o => o.owner === index && o.source === 'pick' && !banned.has(o.name) && (o.usedInRound ?? Infinity) > round,
+      ).length;
+    };
+    const p2Index: PlayerIndex = p1Index === 0 ? 1 : 0;
+    return [remaining(p1Index), remaining(p2Index)];
+  }
+
+  /**
+   * Replay a snapshot's finished games through the referee and compare with
+   * what the server did: the status/winner/scores it reports, and who chose
+   * each opening after a decisive game. Returns human-readable mismatches.
+   */
+  static diffAgainstSnapshot(snapshot: SeriesSnapshot, p1Index: PlayerIndex): string[] {
+    const diffs: string[] = [];
+    const toGlobal = (local: PlayerIndex) => (local === 0 ? p1Index : ((1 - p1Index) as PlayerIndex));
+    const toLocal = (index: PlayerIndex) => (index === p1Index ? 0 : 1);
+
+    const played = snapshot.games.filter(g => g.result !== null);
+    const results: RefereeGame[] = played.map(g => {
+      if (g.result === 'draw') return 'draw';
+      const winner = g.result === 'white' ? g.whitePlayer : ((1 - g.whitePlayer) as PlayerIndex);
+      return toLocal(winner) === 0 ? 'p2-resign' : 'p1-resign';
+    });
+
+    for (let round = 1; round <= results.length; round++) {
+      let verdict: RefereeVerdict;
+      try {
+        verdict = SeriesReferee.judge(results.slice(0, round), SeriesReferee.poolsAfterRound(snapshot, round, p1Index));
+      } catch (err) {
+        if (!(err instanceof RefereeError)) throw err;
+        diffs.push(err.message);
+        return diffs;
+      }
+
+      const next = snapshot.games[round];
+      if (round < results.length && verdict.status === SeriesStatus.Finished) {
+        diffs.push(`series should have ended after game ${round}, but game ${round + 1} was played`);
+        return diffs;
+      }
+      if (next && verdict.nextPhase === 'Selecting' && snapshot.openings.some(o => o.id)) {
+        const opening = snapshot.openings.find(o => o.id === next.openingId);
+        if (opening && opening.owner !== toGlobal(verdict.selector!)) {
+          diffs.push(`game ${round + 1} opening "${opening.name}" should have been selected by P${verdict.selector! + 1} (loser of game ${round})`);
+        }
+      }
+      if (round === results.length && snapshot.forfeitBy === null && snapshot.games.length === played.length) {
+        if (snapshot.status !== verdict.status) diffs.push(`status: referee ${verdict.status}, server ${snapshot.status}`);
+        const winner = snapshot.winner === null ? null : toLocal(snapshot.winner);
+        if (winner !== verdict.winner) diffs.push(`winner: referee ${verdict.winner}, server ${winner}`);
+        const scores = [snapshot.players[p1Index].score, snapshot.players[toGlobal(1)].score];
+        if (scores[0] !== verdict.scores[0] || scores[1] !== verdict.scores[1]) {
+          diffs.push(`scores: referee ${verdict.scores.join('-')}, server ${scores.join('-')}`);
+        }
+      }
+    }
+    return diffs;
+  }
+}
+
+// ===== Generated Results =====
+
+/**
+ * Random complete series result (P1's view) that the referee can judge no
+ * matter how RandomSelecting draws consume the pools: a decisive game that
+ * does not end the series is only generated if the loser must still have an
+ * opening left (every random opening assumed taken from the loser's pool).
+ */
+export function randomSeriesResult(rng: Rng, drawWeight = 0.3): RefereeGame[] {
+  const games: RefereeGame[] = [];
+  const losses = [0, 0];
+  let randomOpenings = 1; // game 1's opening is random
+
+  for (;;) {
+    const candidates: RefereeGame[] = ['draw'];
+    for (const game of ['p2-resign', 'p1-resign'] as const) {
+      const loser = gameWinner(game) === 0 ? 1 : 0;
+      const worstCasePool = POOL_PER_PLAYER - losses[loser] - randomOpenings;
+      if (isSeriesDecided(scoresOf([...games, game])) || worstCasePool > 0 || games.length + 1 === 2 * POOL_PER_PLAYER) {
+        candidates.push(game);
+      }
+    }
+
+    const decisive = candidates.filter(g => g !== 'draw');
+    const game = decisive.length === 0 || rng() < drawWeight ? 'draw' : decisive[Math.floor(rng() * decisive.length)];
+    games.push(game);
+    if (game === 'draw') randomOpenings++;
+    else losses[gameWinner(game) === 0 ? 1 : 0]++;
+
+    // Decided, or every opening used (pool exhaustion → series draw)
+    if (isSeriesDecided(scoresOf(games)) || games.length === 2 * POOL_PER_PLAYER) return games;
+  }
+}
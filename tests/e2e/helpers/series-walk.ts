@@ -0,0 +1,241 @@
+import { Page, expect } from '@playwright/test';
+import {
+  runPickPhase,
+  runBanPhase,
+  executePickBanBehavior,
+  playOneGame,
+  playBothMoves,
+  claimVictoryAfterDisconnect,
+  clickSeriesForfeitButton,
+  confirmSeriesForfeit,
+  waitForRestingUI,
+  confirmNextInResting,
+  cancelNextInResting,
+  waitForNextGame,
+  waitForGamePage,
+  waitForPhase,
+  isSeriesAborted,
+  getGameIdFromUrl,
+  type ScreenshotFn,
+} from './series';
+import { SeriesApiClient, SeriesStatus, playerIndexOf, type PlayerIndex, type SeriesSnapshot } from './series-api';
+import { computeRemainingPicks } from './openings-tab';
+import { assertSeriesInvariants } from './series-invariants';
+import { verifyGameOpening } from './game-opening';
+import {
+  applyStep,
+  chooseStep,
+  createRng,
+  describeStep,
+  diffAgainstSnapshot,
+  initialWalkState,
+  syncPools,
+  defaultWalkOptions,
+  type WalkOptions,
+  type WalkState,
+  type WalkStep,
+} from './series-model';
+
+/**
+ * Random Walk Driver
+ *
+ * Drives two players through a series by repeatedly asking the model
+ * (series-model.ts) for a random valid step, executing it with the
+ * series.ts helpers, then diffing the model's prediction against
+ * `GET /series/{id}`. A mismatch fails the walk with the full step log,
+ * which together with the seed reproduces the path.
+ */
+
+export interface WalkPlayers {
+  player1: Page;
+  player2: Page;
+  p1Username: string;
+  p2Username: string;
+}
+
+export interface WalkRecord {
+  seed: number;
+  steps: Array<{ step: string; expected: WalkState }>;
+}
+
+// ===== Step Execution =====
+
+async function executeGameOutcome(w: WalkPlayers, step: Extract<WalkStep, { kind: 'game' }>): Promise<void> {
+  const { player1, player2, p1Username, p2Username } = w;
+  switch (step.outcome) {
+    case 'p1-resign':
+    case 'p2-resign':
+    case 'draw':
+      await playOneGame(player1, player2, p1Username, p2Username, step.outcome);
+      return;
+    case 'p1-forfeit':
+    case 'p2-forfeit': {
+      const forfeiter = step.outcome === 'p1-forfeit' ? player1 : player2;
+      await playBothMoves(player1, player2, p1Username, p2Username);
+      await clickSeriesForfeitButton(forfeiter);
+      await confirmSeriesForfeit(forfeiter);
+      return;
+    }
+    case 'p1-disconnect':
+    case 'p2-disconnect': {
+      const [leaver, stayer, stayerName] =
+        step.outcome === 'p1-disconnect' ? [player1, player2, p2Username] : [player2, player1, p1Username];
+      await playBothMoves(player1, player2, p1Username, p2Username);
+      await leaver.close();
+      await claimVictoryAfterDisconnect(stayer, stayerName);
+      return;
+    }
+  }
+}
+
+async function executeResting(w: WalkPlayers, step: Extract<WalkStep, { kind: 'resting' }>): Promise<void> {
+  const { player1, player2 } = w;
+  await Promise.all([waitForRestingUI(player1), waitForRestingUI(player2)]);
+  switch (step.behavior) {
+    case 'confirm':
+      await Promise.all([confirmNextInResting(player1), confirmNextInResting(player2)]);
+      return;
+    case 'cancel-confirm':
+      await confirmNextInResting(player1);
+      await cancelNextInResting(player1);
+      await confirmNextInResting(player1);
+      await confirmNextInResting(player2);
+      return;
+    case 'timeout':
+      return; // 30s resting timer moves on by itself
+  }
+}
+
+/**
+ * Execute one step and wait until the state it leads to is observable.
+ */
+async function executeStep(
+  w: WalkPlayers,
+  seriesId: string,
+  state: WalkState,
+  step: WalkStep,
+  screenshot?: ScreenshotFn,
+): Promise<void> {
+  const { player1, player2 } = w;
+  const api = SeriesApiClient.for(player1);
+
+  switch (step.kind) {
+    case 'pick':
+      await runPickPhase(player1, player2, { p1: step.p1, p2: step.p2 }, screenshot);
+      return;
+    case 'ban':
+      await runBanPhase(player1, player2, { p1: step.p1, p2: step.p2 }, screenshot);
+      return;
+    case 'phase-disconnect': {
+      const phaseName = step.phase === 'pick' ? 'Pick Phase' : 'Ban Phase';
+      await waitForPhase(player1, phaseName);
+      // Let a WS ping register lastSeenAt before P2 leaves (see Test 7)
+      await player2.waitForTimeout(4000);
+      await executePickBanBehavior(player1, 'confirm', step.phase);
+      await player2.close();
+      player1.on('dialog', dialog => dialog.dismiss());
+      expect(await isSeriesAborted(player1, seriesId, 25)).toBe(true);
+      return;
+    }
+    case 'game': {
+      await executeGameOutcome(w, step);
+      // Wait for the result to reach the series (Resting, or Finished after a forfeit)
+      const observer = step.outcome === 'p1-disconnect' ? player2 : player1;
+      await SeriesApiClient.for(observer).poll(seriesId, s => s.phaseName !== 'Playing', {
+        retries: 15,
+        intervalMs: 1000,
+      });
+      return;
+    }
+    case 'resting': {
+      const gameId = getGameIdFromUrl(player1.url()) || undefined;
+      await executeResting(w, step);
+      const next = applyStep(state, step);
+      if (next.phase === 'Finished') {
+        await api.poll(seriesId, s => s.status !== SeriesStatus.Started, { retries: 25, intervalMs: 2000 });
+      } else if (next.phase === 'Selecting') {
+        await api.poll(seriesId, s => s.phaseName !== 'Resting', { retries: 25, intervalMs: 2000 });
+      } else {
+        // Draw → RandomSelecting → next game
+        await waitForNextGame(player1, player2, null, gameId, 60000, screenshot, next.games, true);
+      }
+      return;
+    }
+    case 'selecting': {
+      const gameId = getGameIdFromUrl(player1.url()) || undefined;
+      if (step.behavior === 'select') {
+        await waitForNextGame(player1, player2, null, gameId, 60000, screenshot, state.games + 1, true);
+      } else {
+        // Loser never clicks: server picks at random after 30s (see Test 21)
+        await api.poll(seriesId, s => s.games.length > state.games, { retries: 25, intervalMs: 2000 });
+        await Promise.all([waitForGamePage(player1, 30000), waitForGamePage(player2, 30000)]);
+      }
+      return;
+    }
+  }
+}
+
+// ===== Walk =====
+
+function remainingPools(snapshot: SeriesSnapshot, p1Index: PlayerIndex): [number, number] {
+  const p2Index: PlayerIndex = p1Index === 0 ? 1 : 0;
+  return [
+    computeRemainingPicks(snapshot.openings, p1Index).length,
+    computeRemainingPicks(snapshot.openings, p2Index).length,
+  ];
+}
+
+/**
+ * Run one random walk from the Pick phase until the model has no more steps.
+ * The series must already exist and both players must be on the pick page.
+ */
+export async function runRandomWalk(
+  w: WalkPlayers,
+  seriesId: string,
+  seed: number,
+  options: { walk?: WalkOptions; maxSteps?: number; screenshot?: ScreenshotFn } = {},
+): Promise<WalkRecord> {
+  const rng = createRng(seed);
+  const opts = options.walk ?? defaultWalkOptions;
+  const maxSteps = options.maxSteps ?? 40;
+  const record: WalkRecord = { seed, steps: [] };
+
+  let state = initialWalkState();
+  let p1Index: PlayerIndex | null = null;
+  console.log(`[runRandomWalk] seed=${seed}, series=${seriesId}`);
+
+  for (let i = 0; i < maxSteps; i++) {
+    const step = chooseStep(state, rng, opts);
+    if (!step) break;
+
+    const label = describeStep(step);
+    console.log(`[runRandomWalk] step ${i + 1}: ${label}`);
+    await executeStep(w, seriesId, state, step, options.screenshot);
+    state = applyStep(state, step);
+    record.steps.push({ step: label, expected: state });
+
+    // Check against whichever player is still connected
+    const observer = w.player1.isClosed() ? w.player2 : w.player1;
+    const snapshot = await SeriesApiClient.for(observer).get(seriesId);
+    p1Index ??= playerIndexOf(snapshot, w.p1Username);
+    if (p1Index === null) throw new Error(`[runRandomWalk] ${w.p1Username} not in series ${seriesId}`);
+
+    assertSeriesInvariants(snapshot, `after step ${i + 1} (${label}), seed=${seed}`);
+
+    const diffs = diffAgainstSnapshot(state, snapshot, p1Index);
+    if (diffs.length > 0) {
+      throw new Error(
+        `[runRandomWalk] seed=${seed} diverged after step ${i + 1} (${label}):\n  ${diffs.join('\n  ')}\n` +
+          `path: ${record.steps.map(s => s.step).join(' → ')}`,
+      );
+    }
+
+    // Draws consume a random opening - follow the server for pool sizes
+    if (state.phase === 'Playing') state = syncPools(state, remainingPools(snapshot, p1Index));
+    // A new game started: it must use the chosen opening's position and colours
+    if (state.phase === 'Playing' && step.kind !== 'game') await verifyGameOpening(w.player1, w.player2, seriesId);
+  }
+
+  console.log(`[runRandomWalk] seed=${seed} done: ${record.steps.map(s => s.step).join(' → ')}`);
+  return record;
+}
@@ -2,6 +2,14 @@ import { Page, expect } from '@playwright/test';
 import { Chess } from 'chess.js';
 import type { PickBanBehavior } from './scenarios';
 import { verifyOpeningsTab } from './openings-tab';
+import { SeriesApiClient, SeriesContractError, SeriesStatus, playerIndexOf } from './series-api';
+import { attachSeriesEvents, phaseOf, waitForActivity, waitForPhaseEvent } from './series-events';
+import { stackUrl } from './stack';
+import { recordTimeline } from './timeline';
+import { checkInvariantsVia } from './series-invariants';
+import { verifyGameOpening } from './game-opening';
+import { captureSelection, verifyAutoFill, type TimeoutSelection } from './auto-fill';
+import { isNaturalOutcome, outcomeNotation, playToOutcome, type NaturalOutcome } from './game-outcome';
 
 // Selectors matching view.ts structure
 export const selectors = {
@@ -95,6 +103,7 @@ export async function confirm(page: Page): Promise<void> {
   const confirmBtn = page.locator(`${selectors.confirmBtn}, ${selectors.confirmBtnBan}`);
   await expect(confirmBtn).toBeVisible({ timeout: 5000 });
   await confirmBtn.click();
+  recordTimeline(page, 'confirm', await getCurrentPhase(page).catch(() => ''));
 }
 
 /**
@@ -102,6 +111,7 @@ export async function confirm(page: Page): Promise<void> {
  */
 export async function cancel(page: Page): Promise<void> {
   await page.click(selectors.cancelBtn);
+  recordTimeline(page, 'cancel');
 }
 
 /**
@@ -125,6 +135,7 @@ export async function getCurrentPhase(page: Page): Promise<string> {
  */
 export async function waitForPhase(page: Page, phaseName: string, timeout = 10000): Promise<void> {
   await expect(page.locator(selectors.header)).toContainText(phaseName, { timeout });
+  recordTimeline(page, 'phase', phaseName);
 }
 
 /**
@@ -177,6 +188,7 @@ export async function goToSeriesPick(page: Page, seriesId: string): Promise<void
 export async function waitForGameStart(page: Page, timeout = 30000): Promise<string> {
   await page.waitForURL(/\/[a-zA-Z0-9]{8}/, { timeout });
   const match = page.url().match(/\/([a-zA-Z0-9]{8})/);
+  recordTimeline(page, 'game-start', match?.[1] || '');
   return match?.[1] || '';
 }
 
@@ -185,6 +197,7 @@ export async function waitForGameStart(page: Page, timeout = 30000): Promise<str
  */
 export async function waitForRandomSelecting(page: Page, timeout = 10000): Promise<void> {
   await expect(page.locator(selectors.randomSelecting)).toBeVisible({ timeout });
+  recordTimeline(page, 'phase', 'RandomSelecting');
 }
 
 /**
@@ -252,7 +265,9 @@ export type ScreenshotFn = (name: string, page: Page) => Promise<void>;
 export async function waitForCountdownText(page: Page, timeout = 10000): Promise<string> {
   const loc = page.locator(selectors.countdownText);
   await expect(loc).toBeVisible({ timeout });
-  return (await loc.textContent()) || '';
+  const text = (await loc.textContent()) || '';
+  recordTimeline(page, 'countdown', text);
+  return text;
 }
 
 /**
@@ -281,6 +296,7 @@ export async function parseCountdownSeconds(page: Page): Promise<number | null>
  */
 export async function waitForCountdownGone(page: Page, timeout = 10000): Promise<void> {
   await expect(page.locator(selectors.countdownText)).not.toBeVisible({ timeout });
+  recordTimeline(page, 'countdown', 'gone');
 }
 
 /**
@@ -316,6 +332,7 @@ export async function confirmNextInResting(page: Page, timeout = 15000): Promise
   const nextBtn = page.locator(selectors.restingConfirmBtn);
   await expect(nextBtn).toBeVisible({ timeout });
   await nextBtn.click();
+  recordTimeline(page, 'resting', 'Next Game');
 }
 
 /**
@@ -325,6 +342,7 @@ export async function cancelNextInResting(page: Page, timeout = 5000): Promise<v
   const cancelBtn = page.locator(selectors.restingCancelBtn);
   await expect(cancelBtn).toBeVisible({ timeout });
   await cancelBtn.click();
+  recordTimeline(page, 'resting', 'Cancel');
 }
 
 /**
@@ -332,6 +350,7 @@ export async function cancelNextInResting(page: Page, timeout = 5000): Promise<v
  */
 export async function waitForRestingUI(page: Page, timeout = 15000): Promise<void> {
   await expect(page.locator(selectors.restingFollowUp)).toBeVisible({ timeout });
+  recordTimeline(page, 'phase', 'Resting');
 }
 
 /**
@@ -597,6 +616,7 @@ export async function createSeriesChallenge(
     expect(player1.locator(selectors.seriesPick).first()).toBeVisible({ timeout: 10000 }),
     expect(player2.locator(selectors.seriesPick).first()).toBeVisible({ timeout: 10000 }),
   ]);
+  recordTimeline('series', 'note', `series ${seriesId} created`);
 
   return seriesId;
 }
@@ -691,6 +711,7 @@ export async function createSeriesViaLobby(
     expect(player1.locator(selectors.seriesPick).first()).toBeVisible({ timeout: 10000 }),
     expect(player2.locator(selectors.seriesPick).first()).toBeVisible({ timeout: 10000 }),
   ]);
+  recordTimeline('series', 'note', `series ${seriesId} created`);
 
   return seriesId;
 }
@@ -806,6 +827,8 @@ export interface GameFullState {
   moves: string;          // SAN format (space-separated)
   whitePlayer: string;    // Username of white player
   blackPlayer: string;    // Username of black player
+  status: string;         // e.g. 'started', 'resign', 'mate', 'outoftime'
+  winner: string | null;  // 'white' | 'black', null while running or drawn
 }
 
 /**
@@ -814,10 +837,10 @@ export interface GameFullState {
  * Uses the public game export endpoint (no Board API / auth token required)
  */
 export async function getGameState(
-  page: Page,
+  page: Pick<Page, 'request'>,
   gameId: string
 ): Promise<GameFullState> {
-  const url = `http://localhost:8080/game/export/${gameId}`;
+  const url = stackUrl(`/game/export/${gameId}`);
 
   const response = await page.request.get(url, {
     headers: { Accept: 'application/json' },
@@ -833,6 +856,8 @@ export async function getGameState(
     moves: data.moves || '',
     whitePlayer: data.players?.white?.user?.id?.toLowerCase() || '',
     blackPlayer: data.players?.black?.user?.id?.toLowerCase() || '',
+    status: data.status || '',
+    winner: data.winner || null,
   };
 }
 
@@ -860,23 +885,79 @@ export function computeCurrentFen(initialFen: string, moves: string): string {
 }
 
 /**
- * Make a move by clicking on the chessboard (click-click pattern)
- * Clicks the source square, then the destination square.
+ * How moves are entered on the board:
+ * - mouse: click source, click destination (desktop)
+ * - tap: tap source, tap destination (phones; needs a `hasTouch` context)
+ * - drag: touch-drag the piece from source to destination
+ *
+ * Default: `tap` on touch devices, else `mouse`. MOVE_INPUT=drag (or tap/mouse)
+ * forces one for the whole run.
+ */
+export type MoveInput = 'mouse' | 'tap' | 'drag';
+
+async function defaultMoveInput(page: Page): Promise<MoveInput> {
+  const forced = process.env.MOVE_INPUT;
+  if (forced === 'mouse' || forced === 'tap' || forced === 'drag') return forced;
+  const touch = await page.evaluate(() => navigator.maxTouchPoints > 0 || 'ontouchstart' in window);
+  return touch ? 'tap' : 'mouse';
+}
+
+/**
+ * Touch-drag from one point to another with synthetic TouchEvents (chessground
+ * listens for touchstart on cg-board and touchmove/touchend on the document).
+ */
+async function dragByTouch(page: Page, from: { x: number; y: number }, to: { x: number; y: number }): Promise<void> {
+  const fire = (type: 'touchstart' | 'touchmove' | 'touchend', x: number, y: number) =>
+    page.evaluate(
+      ({ type, x, y }) => {
+        const board = document.querySelector('cg-board')!;
+        const touch = new Touch({ identifier: 1, target: board, clientX: x, clientY: y });
+        const active = type === 'touchend' ? [] : [touch];
+        board.dispatchEvent(
+          new TouchEvent(type, {
+            bubbles: true,
+            cancelable: true,
+            touches: active,
+            targetTouches: active,
+            changedTouches: [touch],
+          })
+        );
+      },
+      { type, x, y }
+    );
+
+  await fire('touchstart', from.x, from.y);
+  const steps = 5;
+  for (let i = 1; i <= steps; i++) {
+    await page.waitForTimeout(20); // let chessground process the drag frame
+    await fire('touchmove', from.x + ((to.x - from.x) * i) / steps, from.y + ((to.y - from.y) * i) / steps);
+  }
+  await fire('touchend', to.x, to.y);
+}
+
+/**
+ * Make a move on the chessboard (click-click, tap-tap or touch drag, see MoveInput)
  *
  * @param page - Playwright page (must be on a game page)
  * @param from - Source square key (e.g., 'e2')
  * @param to - Destination square key (e.g., 'e4')
+ * @param input - Input method (default: by device, see MoveInput)
  */
 export async function makeMoveViaUI(
   page: Page,
   from: string,
-  to: string
+  to: string,
+  input?: MoveInput
 ): Promise<void> {
   const board = page.locator('cg-board');
-  const bounds = await board.boundingBox();
-  if (!bounds) {
+  // Phones: the board may start below the fold
+  await board.scrollIntoViewIfNeeded();
+  const box = await board.boundingBox();
+  if (!box) {
     throw new Error('Could not get chessboard bounding box');
   }
+  const bounds = box;
+  const method = input ?? (await defaultMoveInput(page));
 
   // Determine board orientation from chessground DOM class
   const cgWrap = page.locator('.cg-wrap');
@@ -896,12 +977,22 @@ export async function makeMoveViaUI(
   const fromPos = squareCenter(from);
   const toPos = squareCenter(to);
 
-  // Click source square (selects the piece)
-  await page.mouse.click(fromPos.x, fromPos.y);
-  await page.waitForTimeout(200);
-
-  // Click destination square (completes the move)
-  await page.mouse.click(toPos.x, toPos.y);
+  switch (method) {
+    case 'mouse':
+      // Click source square (selects the piece), then destination (completes the move)
+      await page.mouse.click(fromPos.x, fromPos.y);
+      await page.waitForTimeout(200);
+      await page.mouse.click(toPos.x, toPos.y);
+      break;
+    case 'tap':
+      await page.touchscreen.tap(fromPos.x, fromPos.y);
+      await page.waitForTimeout(200);
+      await page.touchscreen.tap(toPos.x, toPos.y);
+      break;
+    case 'drag':
+      await dragByTouch(page, fromPos, toPos);
+      break;
+  }
   await page.waitForTimeout(300);
 }
 
@@ -1002,6 +1093,7 @@ export async function resignGame(page: Page): Promise<void> {
   const confirmBtn = page.locator(gameSelectors.resignConfirm);
   await expect(confirmBtn).toBeVisible({ timeout: 3000 });
   await confirmBtn.click();
+  recordTimeline(page, 'game-end', `resign ${gameId}`);
 
   await page.waitForTimeout(500);
 }
@@ -1023,6 +1115,7 @@ export async function offerDrawViaUI(page: Page): Promise<void> {
   const confirmBtn = page.locator(gameSelectors.drawConfirm);
   await expect(confirmBtn).toBeVisible({ timeout: 3000 });
   await confirmBtn.click();
+  recordTimeline(page, 'note', `draw offered ${gameId}`);
 
   await page.waitForTimeout(300);
 }
@@ -1041,6 +1134,7 @@ export async function acceptDrawViaUI(page: Page): Promise<void> {
   const acceptBtn = page.locator('.question a.yes');
   await expect(acceptBtn).toBeVisible({ timeout: 10000 });
   await acceptBtn.click();
+  recordTimeline(page, 'game-end', `draw ${gameId}`);
 
   await page.waitForTimeout(500);
 }
@@ -1060,6 +1154,7 @@ export async function waitForSeriesRedirect(page: Page, timeout = 15000): Promis
 export async function waitForGamePage(page: Page, timeout = 15000): Promise<void> {
   await page.waitForURL(/\/[a-zA-Z0-9]{8,12}(\/white|\/black)?$/, { timeout });
   await expect(page.locator(gameSelectors.board)).toBeVisible({ timeout: 5000 });
+  recordTimeline(page, 'game-start', getGameIdFromUrl(page.url()) || '');
 }
 
 /**
@@ -1105,6 +1200,7 @@ export async function selectNextOpening(page: Page, openingIndex = 0): Promise<v
   const confirmBtn = page.locator(selectors.anyConfirmBtn);
   await expect(confirmBtn).toBeVisible({ timeout: 3000 });
   await confirmBtn.click();
+  recordTimeline(page, 'confirm', 'Selecting');
 }
 
 // ===== Victory Condition Helpers =====
@@ -1166,9 +1262,14 @@ export async function playBothMoves(
   await player1.waitForTimeout(500);
 }
 
+/**
+ * How a game ends: resign, agreed draw, or a natural end (see game-outcome.ts)
+ */
+export type GameResult = 'p1-resign' | 'p2-resign' | 'draw' | NaturalOutcome;
+
 /**
  * Play one complete game with specified result
- * @param result - 'p1-resign' | 'p2-resign' | 'draw'
+ * @param result - 'p1-resign' | 'p2-resign' | 'draw', or a natural end like 'p2-checkmated'
  * @returns The game ID of the completed game
  */
 export async function playOneGame(
@@ -1176,8 +1277,13 @@ export async function playOneGame(
   player2: Page,
   p1Username: string,
   p2Username: string,
-  result: 'p1-resign' | 'p2-resign' | 'draw'
+  result: GameResult
 ): Promise<string> {
+  // Checkmate, stalemate, repetition, material, flag: played out on the board
+  if (isNaturalOutcome(result)) {
+    return playToOutcome(player1, player2, p1Username, p2Username, result);
+  }
+
   // Wait for game board to be visible
   await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 5000 });
   await expect(player2.locator(gameSelectors.board)).toBeVisible({ timeout: 5000 });
@@ -1208,6 +1314,32 @@ export async function playOneGame(
   return gameId;
 }
 
+/**
+ * After the opponent's page was closed mid-game, claim victory as `stayer`.
+ *
+ * The "Claim victory" button only appears on the opponent's turn, so the stayer
+ * makes one extra move if needed. The server shows it once the opponent is
+ * "long gone" (~60s for blitz: 30s base * 2 multiplier) → rageQuit → Status.Timeout.
+ */
+export async function claimVictoryAfterDisconnect(
+  stayer: Page,
+  stayerUsername: string,
+  screenshot?: ScreenshotFn
+): Promise<void> {
+  if (await isMyTurn(stayer, stayerUsername)) {
+    console.log(`[claimVictoryAfterDisconnect] ${stayerUsername} makes extra move to pass turn...`);
+    await makeAnyMove(stayer, stayerUsername);
+  }
+
+  console.log('[claimVictoryAfterDisconnect] Waiting for "Claim victory" button (~60s)...');
+  const claimBtn = stayer.locator('div.suggestion button.button').first();
+  await expect(claimBtn).toBeVisible({ timeout: 120000 });
+  if (screenshot) await screenshot('claim-victory-visible', stayer);
+
+  await claimBtn.click();
+  await stayer.waitForTimeout(2000);
+}
+
 /**
  * Check if series is finished by calling the Series API directly
  *
@@ -1242,37 +1374,16 @@ export async function isSeriesFinished(
   }
 
   // 재시도 로직: 서버가 게임 결과를 처리할 시간 확보
+  const api = SeriesApiClient.for(page);
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      const response = await page.request.get(`http://localhost:8080/series/${id}`, {
-        headers: { Accept: 'application/json' },
-      });
-
-      if (response.ok()) {
-        const data = await response.json();
-
-        // 첫 번째 시도에서만 전체 구조 출력
-        if (attempt === 1) {
-          console.log(`[isSeriesFinished] Full response keys: ${Object.keys(data).join(', ')}`);
-          console.log(`[isSeriesFinished] status type: ${typeof data.status}, value: ${JSON.stringify(data.status)}`);
-          console.log(`[isSeriesFinished] players type: ${typeof data.players}, isArray: ${Array.isArray(data.players)}`);
-        }
+      const data = await api.tryGet(id);
 
-        // status가 숫자일 수도 있고 객체일 수도 있음
-        const statusId = typeof data.status === 'number' ? data.status : data.status?.id;
-        const phaseId = typeof data.phase === 'number' ? data.phase : data.phase?.id;
+      if (data) {
+        const [p1, p2] = data.players;
+        console.log(`[isSeriesFinished] attempt=${attempt}, status=${data.status}, phase=${data.phaseName}, scores=${p1.score}-${p2.score}, games=${data.games.length}`);
 
-        // players가 배열인지 튜플인지 확인
-        const p1 = Array.isArray(data.players) ? data.players[0] : data.players?._1 || data.players?.player1;
-        const p2 = Array.isArray(data.players) ? data.players[1] : data.players?._2 || data.players?.player2;
-        const p1Score = p1?.score ?? 0;
-        const p2Score = p2?.score ?? 0;
-        const gamesCount = data.games?.length ?? 0;
-
-        console.log(`[isSeriesFinished] attempt=${attempt}, status=${statusId}, phase=${phaseId}, scores=${p1Score / 2}-${p2Score / 2}, games=${gamesCount}`);
-
-        // status.id === 30 means Finished
-        if (statusId === 30) {
+        if (data.status === SeriesStatus.Finished) {
           return true;
         }
 
@@ -1282,6 +1393,7 @@ export async function isSeriesFinished(
         }
       }
     } catch (err) {
+      if (err instanceof SeriesContractError) throw err;
       console.log(`[isSeriesFinished] API error on attempt ${attempt}:`, err);
     }
   }
@@ -1299,18 +1411,15 @@ export async function isSeriesAborted(
   seriesId: string,
   retries = 5
 ): Promise<boolean> {
+  const api = SeriesApiClient.for(page);
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      const response = await page.request.get(`http://localhost:8080/series/${seriesId}`, {
-        headers: { Accept: 'application/json' },
-      });
+      const data = await api.tryGet(seriesId);
 
-      if (response.ok()) {
-        const data = await response.json();
-        const statusId = typeof data.status === 'number' ? data.status : data.status?.id;
-        console.log(`[isSeriesAborted] attempt=${attempt}, status=${statusId}`);
+      if (data) {
+        console.log(`[isSeriesAborted] attempt=${attempt}, status=${data.status}`);
 
-        if (statusId === 40) {
+        if (data.status === SeriesStatus.Aborted) {
           return true;
         }
 
@@ -1319,6 +1428,7 @@ export async function isSeriesAborted(
         }
       }
     } catch (err) {
+      if (err instanceof SeriesContractError) throw err;
       console.log(`[isSeriesAborted] API error on attempt ${attempt}:`, err);
     }
   }
@@ -1345,6 +1455,13 @@ export async function isSeriesAborted(
  *   the selected opening (enlarged card + "{player}'s {opening} selected!" text)
  * - The showcase renders with .series-pick.random-selecting class
  *
+ * Event-driven mode:
+ * - If the pages carry a SeriesEventTap (see series-events.ts), Resting,
+ *   RandomSelecting and the showcase end when the server's next `phase` event
+ *   arrives (without consuming it, see waitForPhaseEvent) and the other sleeps wake on any frame, so transitions are handled
+ *   immediately instead of on the next 300-500ms tick. The DOM checks stay
+ *   as the fallback (and as the only path on untapped pages).
+ *
  * @param skipResting - If true, don't click "Next Game" (let timeout handle it)
  */
 export async function waitForNextGame(
@@ -1366,6 +1483,7 @@ export async function waitForNextGame(
   // Helper: 한 플레이어의 상태를 체크하고 필요시 행동
   const handlePlayer = async (page: Page, label: string, otherPage: Page): Promise<void> => {
     let restingConfirmed = false;
+    let restingSeen = false;
 
     while (Date.now() - startTime < timeout) {
       const path = new URL(page.url()).pathname;
@@ -1374,6 +1492,7 @@ export async function waitForNextGame(
       const gameMatch = path.match(/\/([a-zA-Z0-9]{8,12})(\/white|\/black)?$/);
       if (gameMatch && gameMatch[1] !== previousGameId) {
         console.log(`[waitForNextGame] ${label} arrived at game: ${gameMatch[1]}`);
+        recordTimeline(page, 'game-start', gameMatch[1]);
         return;
       }
 
@@ -1382,6 +1501,11 @@ export async function waitForNextGame(
         const restNextBtn = page.locator(selectors.restingConfirmBtn);
         const isRestVisible = await restNextBtn.isVisible().catch(() => false);
         if (isRestVisible) {
+          if (!restingSeen) {
+            restingSeen = true;
+            recordTimeline(page, 'phase', 'Resting');
+            if (skipResting) recordTimeline(page, 'resting', 'wait for timer');
+          }
           // Screenshot: resting UI
           if (screenshot && !screenshotTaken.resting) {
             screenshotTaken.resting = true;
@@ -1390,9 +1514,11 @@ export async function waitForNextGame(
           if (!skipResting) {
             console.log(`[waitForNextGame] ${label} clicking "Next Game" in Resting phase`);
             await restNextBtn.click();
+            recordTimeline(page, 'resting', 'Next Game');
             restingConfirmed = true;
           }
-          await page.waitForTimeout(500);
+          const next = await waitForPhaseEvent(page, 500);
+          if (next) console.log(`[waitForNextGame] ${label} Resting → ${phaseOf(next)}`);
           continue;
         }
       }
@@ -1400,7 +1526,7 @@ export async function waitForNextGame(
       // Pick 페이지에 있을 때
       if (/\/series\/\w+\/pick/.test(path)) {
         // UI가 렌더링될 때까지 잠시 대기
-        await page.waitForTimeout(300);
+        await waitForActivity(page, 300);
 
         // 1. RandomSelecting or Showcase: roulette animation / showcase countdown, 행동 불필요
         //    Both RandomSelecting (roulette + result) and Selecting showcase render with .random-selecting
@@ -1410,18 +1536,20 @@ export async function waitForNextGame(
           const isShowcase = await page.locator(selectors.showcase).isVisible().catch(() => false);
           if (isShowcase) {
             console.log(`[waitForNextGame] ${label} in Showcase (5s countdown)`);
+            recordTimeline(page, 'phase', 'Showcase');
             if (screenshot && !screenshotTaken.showcase) {
               screenshotTaken.showcase = true;
               await screenshot(`game${gameNum}-showcase`, page);
             }
           } else {
             console.log(`[waitForNextGame] ${label} in RandomSelecting (roulette)`);
+            recordTimeline(page, 'phase', 'RandomSelecting');
             if (screenshot && !screenshotTaken.randomSelecting) {
               screenshotTaken.randomSelecting = true;
               await screenshot(`game${gameNum}-random-selecting`, page);
             }
           }
-          await page.waitForTimeout(500);
+          await waitForPhaseEvent(page, 500);
           continue;
         }
 
@@ -1434,6 +1562,7 @@ export async function waitForNextGame(
           const count = await selectableOpenings.count();
           if (count > 0) {
             console.log(`[waitForNextGame] ${label} is loser, selecting opening (${count} available)...`);
+            recordTimeline(page, 'phase', 'Selecting');
             // Screenshot: both players' views during Selecting
             if (screenshot && !screenshotTaken.selecting) {
               screenshotTaken.selecting = true;
@@ -1448,8 +1577,9 @@ export async function waitForNextGame(
         }
       }
 
-      await page.waitForTimeout(300);
+      await waitForActivity(page, 300);
     }
+    recordTimeline(page, 'note', `waitForNextGame timeout on ${new URL(page.url()).pathname}`);
     throw new Error(`[waitForNextGame] ${label} timeout - did not reach game page`);
   };
 
@@ -1481,7 +1611,7 @@ export async function waitForNextGame(
  * - partial-timeout: Select some but not all (wait for timeout + server auto-fill)
  * - none-timeout: Select nothing (wait for timeout + server auto-fill)
  */
-async function executePickBanBehavior(
+export async function executePickBanBehavior(
   page: Page,
   behavior: PickBanBehavior,
   phase: 'pick' | 'ban'
@@ -1524,36 +1654,29 @@ export interface BanPickOptions {
 }
 
 /**
- * Complete ban/pick phase with configurable behaviors for both players
- *
- * @param player1 - Player 1's page
- * @param player2 - Player 2's page
- * @param options - Pick/ban behavior options (defaults to confirm for all)
+ * Pick phase only: execute both behaviors and wait until both reach Ban Phase
  */
-export async function completeBanPickPhase(
+export async function runPickPhase(
   player1: Page,
   player2: Page,
-  options?: BanPickOptions,
+  pick: BanPickOptions['pick'],
   screenshot?: ScreenshotFn
 ): Promise<void> {
-  // Default to confirm for all if no options provided
-  const opts: BanPickOptions = options || {
-    pick: { p1: 'confirm', p2: 'confirm' },
-    ban: { p1: 'confirm', p2: 'confirm' },
-  };
-
-  console.log(`[completeBanPickPhase] pick: p1=${opts.pick.p1}, p2=${opts.pick.p2}, ban: p1=${opts.ban.p1}, p2=${opts.ban.p2}`);
-
-  // ===== Pick Phase =====
   await waitForPhase(player1, 'Pick Phase');
   await waitForPhase(player2, 'Pick Phase');
 
   // Execute pick behaviors in parallel
   await Promise.all([
-    executePickBanBehavior(player1, opts.pick.p1, 'pick'),
-    executePickBanBehavior(player2, opts.pick.p2, 'pick'),
+    executePickBanBehavior(player1, pick.p1, 'pick'),
+    executePickBanBehavior(player2, pick.p2, 'pick'),
   ]);
 
+  // Manual selections, before the timer can run out (auto-fill check below)
+  const pickNeedsTimeout = needsTimeout(pick.p1) || needsTimeout(pick.p2);
+  const selections: [TimeoutSelection, TimeoutSelection] | null = pickNeedsTimeout
+    ? await Promise.all([captureSelection(player1, pick.p1), captureSelection(player2, pick.p2)])
+    : null;
+
   // Screenshot: after pick selections
   if (screenshot) {
     await Promise.all([
@@ -1563,9 +1686,8 @@ export async function completeBanPickPhase(
   }
 
   // If any player needs timeout, wait for phase transition
-  const pickNeedsTimeout = needsTimeout(opts.pick.p1) || needsTimeout(opts.pick.p2);
   if (pickNeedsTimeout) {
-    console.log('[completeBanPickPhase] Waiting for pick timeout...');
+    console.log('[runPickPhase] Waiting for pick timeout...');
     // Wait for Ban Phase (server auto-fills and transitions after 30s timeout)
     // Extra buffer for server load during parallel test execution
     await waitForPhase(player1, 'Ban Phase', 50000);
@@ -1577,13 +1699,25 @@ export async function completeBanPickPhase(
     await waitForPhase(player2, 'Ban Phase', 15000);
   }
 
-  // ===== Ban Phase =====
   // Wait for Snabbdom to re-initialize after page reload/redirect
   await Promise.all([
     waitForSnabbdomReady(player1),
     waitForSnabbdomReady(player2),
   ]);
 
+  if (selections) await verifyAutoFill('pick', [player1, player2], selections);
+}
+
+/**
+ * Ban phase only: execute both behaviors and wait until both are on the game 1 page
+ * (Ban → RandomSelecting → Playing)
+ */
+export async function runBanPhase(
+  player1: Page,
+  player2: Page,
+  ban: BanPickOptions['ban'],
+  screenshot?: ScreenshotFn
+): Promise<void> {
   // Screenshot: ban phase reached (shows opponent's picks)
   if (screenshot) {
     await Promise.all([
@@ -1594,10 +1728,16 @@ export async function completeBanPickPhase(
 
   // Execute ban behaviors in parallel
   await Promise.all([
-    executePickBanBehavior(player1, opts.ban.p1, 'ban'),
-    executePickBanBehavior(player2, opts.ban.p2, 'ban'),
+    executePickBanBehavior(player1, ban.p1, 'ban'),
+    executePickBanBehavior(player2, ban.p2, 'ban'),
   ]);
 
+  // Manual selections, before the timer can run out (auto-fill check below)
+  const banNeedsTimeout = needsTimeout(ban.p1) || needsTimeout(ban.p2);
+  const selections: [TimeoutSelection, TimeoutSelection] | null = banNeedsTimeout
+    ? await Promise.all([captureSelection(player1, ban.p1), captureSelection(player2, ban.p2)])
+    : null;
+
   // Screenshot: after ban selections
   if (screenshot) {
     await Promise.all([
@@ -1607,9 +1747,8 @@ export async function completeBanPickPhase(
   }
 
   // If any player needs timeout, wait for phase transition
-  const banNeedsTimeout = needsTimeout(opts.ban.p1) || needsTimeout(opts.ban.p2);
   if (banNeedsTimeout) {
-    console.log('[completeBanPickPhase] Waiting for ban timeout...');
+    console.log('[runBanPhase] Waiting for ban timeout...');
   }
 
   // Wait for RandomSelecting phase (Game 1 random selection)
@@ -1634,20 +1773,53 @@ export async function completeBanPickPhase(
       screenshot('game1-p2-board', player2),
     ]);
   }
+
+  if (selections) await verifyAutoFill('ban', [player1, player2], selections);
+}
+
+/**
+ * Complete ban/pick phase with configurable behaviors for both players.
+ * After a timeout behavior the auto-filled picks/bans are checked (auto-fill.ts).
+ *
+ * @param player1 - Player 1's page
+ * @param player2 - Player 2's page
+ * @param options - Pick/ban behavior options (defaults to confirm for all)
+ */
+export async function completeBanPickPhase(
+  player1: Page,
+  player2: Page,
+  options?: BanPickOptions,
+  screenshot?: ScreenshotFn
+): Promise<void> {
+  // Default to confirm for all if no options provided
+  const opts: BanPickOptions = options || {
+    pick: { p1: 'confirm', p2: 'confirm' },
+    ban: { p1: 'confirm', p2: 'confirm' },
+  };
+
+  console.log(`[completeBanPickPhase] pick: p1=${opts.pick.p1}, p2=${opts.pick.p2}, ban: p1=${opts.ban.p1}, p2=${opts.ban.p2}`);
+
+  // ===== Pick Phase =====
+  await runPickPhase(player1, player2, opts.pick, screenshot);
+
+  // ===== Ban Phase =====
+  await runBanPhase(player1, player2, opts.ban, screenshot);
 }
 
 /**
  * Parse series result string into game outcomes
  *
- * @param seriesResult - e.g., '0 - 1/2 - 1 - 1'
- * @returns Array of outcomes: 'p1-resign' | 'p2-resign' | 'draw'
+ * @param seriesResult - e.g., '0 - 1/2 - 1 - 1', or with natural ends '1# - 1/2S - 0T'
+ * @returns Array of outcomes: 'p1-resign' | 'p2-resign' | 'draw' | NaturalOutcome
  */
-export function parseSeriesResult(seriesResult: string): Array<'p1-resign' | 'p2-resign' | 'draw'> {
+export function parseSeriesResult(seriesResult: string): GameResult[] {
   const parts = seriesResult.split(' - ').map(s => s.trim());
   return parts.map(part => {
     if (part === '1') return 'p2-resign'; // P1 wins = P2 resigns
     if (part === '0') return 'p1-resign'; // P1 loses = P1 resigns
     if (part === '1/2') return 'draw';
+    const natural = (Object.keys(outcomeNotation) as NaturalOutcome[]).find(o => outcomeNotation[o] === part);
+    if (natural) return natural; // e.g. '1#' = P2 is checkmated
     throw new Error(`Invalid series result part: ${part}`);
   });
 }
@@ -1674,6 +1846,9 @@ export async function executeSeriesResult(
   const outcomes = parseSeriesResult(seriesResult);
   console.log(`[executeSeriesResult] Playing ${outcomes.length} games: ${seriesResult}`);
 
+  // Tap both sockets so waitForNextGame reacts to server pushes (sockets opened from here on)
+  attachSeriesEvents(player1, player2);
+
   let lastGameId = '';
 
   for (let i = 0; i < outcomes.length; i++) {
@@ -1688,6 +1863,8 @@ export async function executeSeriesResult(
       verifyOpeningsTab(player1, seriesId, p1Username, screenshot, gameNum),
       verifyOpeningsTab(player2, seriesId, p2Username, screenshot, gameNum),
     ]);
+    await checkInvariantsVia([player1, player2], seriesId, `before game ${gameNum}`);
+    await verifyGameOpening(player1, player2, seriesId);
 
     // Play the game
     lastGameId = await playOneGame(player1, player2, p1Username, p2Username, outcome);
@@ -1739,6 +1916,7 @@ export async function executeSeriesResult(
     throw new Error(`Series ${seriesId} did not finish after ${outcomes.length} games`);
   }
   console.log(`[executeSeriesResult] Series ${seriesId} finished successfully`);
+  await checkInvariantsVia([player1, player2], seriesId, 'after the series finished');
 
   // Screenshot: series finished (both players' final views)
   if (screenshot) {
@@ -1759,14 +1937,10 @@ export async function forfeitSeriesViaApi(
   page: Page,
   seriesId: string
 ): Promise<boolean> {
-  const response = await page.request.post(`http://localhost:8080/series/${seriesId}/forfeit`, {
-    headers: { Accept: 'application/json' },
-  });
-
-  const body = await response.text();
-  console.log(`[forfeitSeriesViaApi] status=${response.status()}, body=${body}`);
+  const { ok, status, body } = await SeriesApiClient.for(page).forfeit(seriesId);
+  console.log(`[forfeitSeriesViaApi] status=${status}, body=${body}`);
 
-  return response.ok();
+  return ok;
 }
 
 /**
@@ -1803,26 +1977,16 @@ export async function getSeriesData(
   gamesCount: number;
   forfeitBy: number | null;
 } | null> {
-  const response = await page.request.get(`http://localhost:8080/series/${seriesId}`, {
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok()) return null;
-
-  const data = await response.json();
-  const statusId = typeof data.status === 'number' ? data.status : data.status?.id;
-  const phaseId = typeof data.phase === 'number' ? data.phase : data.phase?.id;
-  const players = data.players as Array<{ score?: number }>;
-  const p1Score = players[0]?.score ?? 0;
-  const p2Score = players[1]?.score ?? 0;
+  const data = await SeriesApiClient.for(page).tryGet(seriesId);
+  if (!data) return null;
 
   return {
-    status: statusId,
-    phase: phaseId,
-    winner: data.winner ?? null,
-    scores: [p1Score, p2Score],
-    gamesCount: data.games?.length ?? 0,
-    forfeitBy: data.forfeitBy ?? null,
+    status: data.status,
+    phase: data.phase,
+    winner: data.winner,
+    scores: [data.players[0].score, data.players[1].score],
+    gamesCount: data.games.length,
+    forfeitBy: data.forfeitBy,
   };
 }
 
@@ -1834,14 +1998,8 @@ export async function getSeriesWinner(
   page: Page,
   seriesId: string
 ): Promise<number | null> {
-  const response = await page.request.get(`http://localhost:8080/series/${seriesId}`, {
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok()) return null;
-
-  const data = await response.json();
-  return data.winner ?? null;
+  const data = await SeriesApiClient.for(page).tryGet(seriesId);
+  return data?.winner ?? null;
 }
 
 /**
@@ -1854,18 +2012,8 @@ export async function getPlayerIndex(
   seriesId: string,
   username: string
 ): Promise<number | null> {
-  const response = await page.request.get(`http://localhost:8080/series/${seriesId}`, {
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok()) return null;
-
-  const data = await response.json();
-  const players = data.players as Array<{ user?: { id: string } }>;
-  for (let i = 0; i < players.length; i++) {
-    if (players[i].user?.id === username) return i;
-  }
-  return null;
+  const data = await SeriesApiClient.for(page).tryGet(seriesId);
+  return data ? playerIndexOf(data, username) : null;
 }
 
 // ===== Series Finished Page Helpers =====
@@ -1900,6 +2048,7 @@ export async function waitForFinishedPage(
 ): Promise<void> {
   await page.waitForURL(new RegExp(`/series/${seriesId}/finished`), { timeout });
   await expect(page.locator(finishedSelectors.container)).toBeVisible({ timeout: 10000 });
+  recordTimeline(page, 'phase', 'Finished');
 }
 
 /**
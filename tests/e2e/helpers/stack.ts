@@ -0,0 +1,152 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+
+/**
+ * Stack Profile
+ *
+ * Where the suite finds the server and its databases. One set of env vars,
+ * read once, so the same specs run against any of the stacks:
+ *
+ *   npm test                                          # ./lila-docker full mode (default)
+ *   E2E_STACK=quick npm test                          # quick/compose.yml (port 80)
+ *   E2E_STACK=mono npm test                           # mono image (compose profile quick)
+ *
+ * Several stacks side by side - one compose project each, same env for the
+ * stack and the suite:
+ *
+ *   export COMPOSE_PROJECT_NAME=duel2 LILA_PORT=8081 LILA_URL=http://localhost:8081 LILA_DOMAIN=localhost:8081
+ *   docker compose --profile quick up -d mono
+ *   E2E_STACK=mono npm test
+ *
+ * | Env | Default | |
+ * |-----|---------|-|
+ * | E2E_STACK | full | full / quick / mono - picks the defaults below |
+ * | E2E_BASE_URL, LILA_URL | http://localhost:8080 (quick: http://localhost) | server URL |
+ * | COMPOSE_PROJECT_NAME | chess-opening-duel (quick: quick) | container names `{project}-{service}-1` |
+ * | E2E_MONGO_URI | - | instead of the container's address (or `docker exec`) |
+ * | E2E_MONGO_CONTAINER | {project}-mongodb-1 (mono: {project}-mono-1) | |
+ * | E2E_REDIS_URI | - | instead of the container's address |
+ * | E2E_REDIS_CONTAINER | {project}-redis-1 (mono: {project}-mono-1) | |
+ *
+ * Sessions (`.auth/`), leases and reports of a non-default compose project go
+ * to `{dir}/{project}/`, so parallel runs do not log each other out.
+ */
+
+export type StackKind = 'full' | 'quick' | 'mono';
+
+export interface StackProfile {
+  kind: StackKind;
+  baseURL: string;
+  composeProject: string;
+  /** Compose project the repo's compose.yml gets without COMPOSE_PROJECT_NAME */
+  isDefaultProject: boolean;
+  mongo: { uri: string | null; container: string; db: string };
+  redis: { uri: string | null; container: string };
+}
+
+const DEFAULT_PROJECT = 'chess-opening-duel';
+
+const kinds: Record<StackKind, { baseURL: string; project: string; mongoService: string; redisService: string }> = {
+  full: { baseURL: 'http://localhost:8080', project: DEFAULT_PROJECT, mongoService: 'mongodb', redisService: 'redis' },
+  quick: { baseURL: 'http://localhost', project: 'quick', mongoService: 'mongodb', redisService: 'redis' },
+  mono: { baseURL: 'http://localhost:8080', project: DEFAULT_PROJECT, mongoService: 'mono', redisService: 'mono' },
+};
+
+function env(...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function readProfile(): StackProfile {
+  const kind = (env('E2E_STACK') ?? 'full') as StackKind;
+  if (!(kind in kinds)) {
+    throw new Error(`[stack] Invalid E2E_STACK: ${kind} (expected ${Object.keys(kinds).join(', ')})`);
+  }
+  const defaults = kinds[kind];
+  const project = env('COMPOSE_PROJECT_NAME') ?? defaults.project;
+
+  return {
+    kind,
+    baseURL: (env('E2E_BASE_URL', 'LILA_URL') ?? defaults.baseURL).replace(/\/+$/, ''),
+    composeProject: project,
+    isDefaultProject: project === defaults.project,
+    mongo: {
+      uri: env('E2E_MONGO_URI') ?? null,
+      container: env('E2E_MONGO_CONTAINER') ?? `${project}-${defaults.mongoService}-1`,
+      db: 'lichess',
+    },
+    redis: {
+      uri: env('E2E_REDIS_URI') ?? null,
+      container: env('E2E_REDIS_CONTAINER') ?? `${project}-${defaults.redisService}-1`,
+    },
+  };
+}
+
+const profile = readProfile();
+
+export function stackProfile(): StackProfile {
+  return profile;
+}
+
+/** Absolute URL on the server: `stackUrl('/game/export/abc')` */
+export function stackUrl(pathname: string): string {
+  return `${profile.baseURL}${pathname.startsWith('/') ? '' : '/'}${pathname}`;
+}
+
+/**
+ * Per-stack location of a local directory: `dir` for the default compose
+ * project, `dir/{project}` otherwise.
+ */
+export function stackDir(dir: string): string {
+  return profile.isDefaultProject ? dir : path.join(dir, profile.composeProject);
+}
+
+/** Playwright storage state of a test account */
+export function authFile(username: string): string {
+  return path.join(stackDir('.auth'), `${username}.json`);
+}
+
+const containerIps = new Map<string, string>();
+
+/**
+ * Address of a compose container on the docker network. Only Linux hosts can
+ * reach it - with Docker Desktop cleanup.ts falls back to `docker exec`.
+ */
+function containerIp(container: string): string {
+  let ip = containerIps.get(container);
+  if (ip === undefined) {
+    try {
+      ip = execFileSync(
+        'docker',
+        ['inspect', '-f', '{{range .NetworkSettings.Networks}}{{.IPAddress}} {{end}}', container],
+        { encoding: 'utf-8', timeout: 10000 },
+      ).trim().split(/\s+/)[0];
+    } catch (err) {
+      throw new Error(`[stack] docker inspect ${container} failed - is the stack up? (${(err as Error).message.split('\n')[0]})`);
+    }
+    if (!ip) throw new Error(`[stack] ${container} has no network address`);
+    containerIps.set(container, ip);
+  }
+  return ip;
+}
+
+/** Driver connection string for the stack's MongoDB (single member, no replica set discovery) */
+export function mongoUri(): string {
+  const { uri, container, db } = profile.mongo;
+  return uri ?? `mongodb://${containerIp(container)}:27017/${db}?directConnection=true`;
+}
+
+/** Driver connection string for the stack's Redis */
+export function redisUri(): string {
+  const { uri, container } = profile.redis;
+  return uri ?? `redis://${containerIp(container)}:6379`;
+}
+
+/** One line for logs and reports */
+export function describeStack(): string {
+  const mongo = profile.mongo.uri ?? profile.mongo.container;
+  return `${profile.kind} ${profile.baseURL} (project ${profile.composeProject}, mongo ${mongo})`;
+}
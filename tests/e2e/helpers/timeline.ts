@@ -0,0 +1,88 @@
+import { Page, test } from '@playwright/test';
+
+/**
+ * Series Timeline Events
+ *
+ * Harness helpers call `recordTimeline()` at every series milestone (phase
+ * entry, confirm/cancel, countdown, game start/end, resting decisions,
+ * screenshots). Each event is printed as one `[timeline] {json}` stdout line;
+ * timeline-reporter.ts collects those lines per test and renders a P1/P2
+ * swimlane next to the test's screenshots.
+ *
+ * Pages are mapped to lanes by `setTimelineLane()` (createTwoPlayerContexts
+ * does this for P1/P2); events from unlabelled pages land in the `series` lane.
+ */
+
+export type TimelineLane = 'P1' | 'P2' | 'series';
+
+export type TimelineKind =
+  | 'phase'       // entered a phase (Pick Phase, Resting, RandomSelecting, Showcase, Finished...)
+  | 'confirm'     // pick/ban/selecting confirm
+  | 'cancel'      // withdrew a confirm
+  | 'countdown'   // countdown shown / gone
+  | 'game-start'  // arrived on a game page
+  | 'game-end'    // resign / draw / abort
+  | 'resting'     // Next Game / Cancel / let the timer run
+  | 'screenshot'  // attachment name, matched to the image by the reporter
+  | 'note';
+
+export interface TimelineEvent {
+  lane: TimelineLane;
+  kind: TimelineKind;
+  detail: string;
+  at: number; // Date.now()
+}
+
+export const TIMELINE_PREFIX = '[timeline] ';
+
+const lanes = new WeakMap<Page, TimelineLane>();
+// Last event per test + lane, so polling loops only record state changes
+const lastEvent = new Map<string, string>();
+
+/** Label a page's events (P1 / P2) */
+export function setTimelineLane(page: Page, lane: TimelineLane): void {
+  lanes.set(page, lane);
+}
+
+export function timelineLane(page: Page | null | undefined): TimelineLane {
+  return (page && lanes.get(page)) || 'series';
+}
+
+function currentTestId(): string {
+  try {
+    return test.info().testId;
+  } catch {
+    return ''; // outside a test (global setup, load runner)
+  }
+}
+
+/**
+ * Record one timeline event. Consecutive duplicates in the same lane are
+ * dropped (waitForNextGame reports the same phase on every poll).
+ */
+export function recordTimeline(page: Page | TimelineLane | null, kind: TimelineKind, detail = ''): void {
+  const lane = typeof page === 'string' ? page : timelineLane(page);
+  const key = `${kind}:${detail}`;
+  const slot = `${currentTestId()}:${lane}`;
+  if (lastEvent.get(slot) === key) return;
+  lastEvent.set(slot, key);
+
+  const event: TimelineEvent = { lane, kind, detail, at: Date.now() };
+  console.log(TIMELINE_PREFIX + JSON.stringify(event));
+}
+
+/**
+ * Parse the timeline events out of a chunk of test stdout.
+ */
+export function parseTimelineEvents(chunk: string): TimelineEvent[] {
+  return chunk
+    .split('\n')
+    .filter(line => line.startsWith(TIMELINE_PREFIX))
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line.slice(TIMELINE_PREFIX.length)) as TimelineEvent];
+      } catch {
+        return []; // truncated line - skip
+      }
+    });
+}
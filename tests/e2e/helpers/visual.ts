@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import { Page, expect, type TestInfo } from '@playwright/test';
+import { selectors, finishedSelectors, type ScreenshotFn } from './series';
+
+/**
+ * Visual Regression for Series Pages
+ *
+ * Compares series surfaces against committed baselines with `toHaveScreenshot`.
+ * Anything that differs between runs - timers, countdowns, opponent status,
+ * usernames, the roulette and randomly chosen openings - is masked from the
+ * `selectors` / `finishedSelectors` maps, so a diff means the layout changed:
+ *
+ *   await expectSeriesVisual(player1, 'pick');
+ *   await expectSeriesVisual(player1, 'finished', 'mobile');
+ *
+ * or wrap a spec's ScreenshotFn so every screenshot of a known surface is also
+ * compared (once per surface):
+ *
+ *   const shoot = withVisualBaselines(takeScreenshot, player1);
+ *
+ * Baselines live next to the spec (`<spec>-snapshots/`) and are kept for the
+ * `chromium` project only. Create or refresh them against the reference stack
+ * with `npm run test:visual:update`.
+ */
+
+/** Project the baselines are recorded in */
+export const VISUAL_PROJECT = 'chromium';
+
+export type VisualSurface = 'pick' | 'ban' | 'roulette' | 'showcase' | 'resting' | 'finished';
+
+// Usernames render as lila user links on every page
+const userLink = 'a.user-link';
+
+interface SurfaceSpec {
+  root: string; // element compared (the page around it is ignored)
+  masks: string[];
+}
+
+const surfaces: Record<VisualSurface, SurfaceSpec> = {
+  pick: {
+    root: selectors.seriesPick,
+    masks: [selectors.timer, selectors.countdown, selectors.countdownText, selectors.opponentStatus, userLink],
+  },
+  ban: {
+    root: selectors.seriesPick,
+    masks: [selectors.timer, selectors.countdown, selectors.countdownText, selectors.opponentStatus, userLink],
+  },
+  roulette: {
+    root: selectors.randomSelecting,
+    masks: [selectors.rouletteCard, selectors.countdown, selectors.countdownText, userLink],
+  },
+  showcase: {
+    root: selectors.randomSelecting,
+    masks: [selectors.showcaseText, selectors.openingName, selectors.countdown, selectors.countdownText, userLink],
+  },
+  resting: {
+    root: selectors.restingFollowUp,
+    masks: [selectors.restingTimer, selectors.restingOpponentStatus],
+  },
+  finished: {
+    root: finishedSelectors.container,
+    masks: [finishedSelectors.players, finishedSelectors.scoreLabel, userLink],
+  },
+};
+
+/**
+ * The series surface `page` is showing right now, if any.
+ */
+export async function detectSurface(page: Page): Promise<VisualSurface | null> {
+  const visible = (selector: string) => page.locator(selector).first().isVisible().catch(() => false);
+
+  if (await visible(finishedSelectors.container)) return 'finished';
+  if (await visible(selectors.restingFollowUp)) return 'resting';
+  if (await visible(selectors.randomSelecting)) return (await visible(selectors.showcase)) ? 'showcase' : 'roulette';
+  if (await visible(selectors.seriesPick)) {
+    const header = (await page.locator(selectors.header).textContent().catch(() => null)) ?? '';
+    if (header.includes('Pick Phase')) return 'pick';
+    if (header.includes('Ban Phase')) return 'ban';
+  }
+  return null;
+}
+
+/**
+ * Compare one surface against its baseline `<surface>[-<variant>].png`.
+ * Soft assertion: the flow goes on so one run reports every changed surface.
+ */
+export async function expectSeriesVisual(page: Page, surface: VisualSurface, variant?: string): Promise<void> {
+  const { root, masks } = surfaces[surface];
+  const name = `${surface}${variant ? `-${variant}` : ''}.png`;
+  console.log(`[expectSeriesVisual] Comparing ${name}`);
+
+  await expect.soft(page.locator(root).first()).toHaveScreenshot(name, {
+    mask: masks.map(selector => page.locator(selector)),
+    animations: 'disabled',
+    caret: 'hide',
+  });
+}
+
+/**
+ * Fails unless every baseline of `names` (`pick`, `finished-mobile`, ...) is
+ * committed for the running spec and project, naming the missing ones. Passes
+ * while recording (`--update-snapshots`), when missing files are written.
+ */
+export function expectVisualBaselines(testInfo: TestInfo, names: string[]): void {
+  const { updateSnapshots } = testInfo.config;
+  if (updateSnapshots === 'all' || updateSnapshots === 'changed') return;
+
+  const missing = names.filter(name => !fs.existsSync(testInfo.snapshotPath(`${name}.png`, { kind: 'screenshot' })));
+  expect(missing, 'Baselines missing - record them on the reference stack: npm run test:visual:update').toEqual([]);
+}
+
+/**
+ * ScreenshotFn that also compares the first screenshot of each surface taken on
+ * `page`; the other player's screenshots are only attached.
+ */
+export function withVisualBaselines(screenshot: ScreenshotFn, page: Page, variant?: string): ScreenshotFn {
+  const compared = new Set<VisualSurface>();
+
+  return async (name, shotPage) => {
+    await screenshot(name, shotPage);
+    if (shotPage !== page) return;
+
+    const surface = await detectSurface(shotPage);
+    if (!surface || compared.has(surface)) return;
+    compared.add(surface);
+    await expectSeriesVisual(shotPage, surface, variant);
+  };
+}
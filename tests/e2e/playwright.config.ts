@@ -1,4 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
+import { stackDir, stackProfile } from './helpers/stack';
+
+const selectedBrowsers = process.env.BROWSERS || 'chromium';
 
 export default defineConfig({
   testDir: './specs',
@@ -6,18 +9,25 @@ export default defineConfig({
   forbidOnly: !!process.env.CI,
   retries: 0, // No retries - fail fast
   workers: 3, // 3 workers - optimal for lila server capacity (see README.md)
-  reporter: 'html',
+  reporter: [
+    ['html', { outputFolder: stackDir('playwright-report') }],
+    ['./timeline-reporter.ts', { outputFolder: stackDir('timeline-report') }], // P1/P2 swimlane per series test (README 참고)
+  ],
 
-  // Global setup: 테스트 전 한 번만 로그인 (세션 유효하면 스킵)
+  // Global setup: 테스트 전 한 번만 로그인 (유효한 세션은 스킵, 만료된 계정만 API 로그인)
   globalSetup: require.resolve('./global-setup'),
+  // Global teardown: 테스트 계정의 시리즈 데이터 정리 (MongoDB + Redis, E2E_KEEP_DATA=1이면 유지)
+  globalTeardown: require.resolve('./global-teardown'),
+  outputDir: stackDir('test-results'), // 병렬 compose 프로젝트는 각자의 디렉토리 (helpers/stack.ts)
 
   use: {
-    baseURL: 'http://localhost:8080',
+    baseURL: stackProfile().baseURL,
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
   },
 
+  // 기본은 chromium만 실행. BROWSERS=firefox,webkit 또는 BROWSERS=all 로 다른 프로젝트 선택 (README 참고)
   projects: [
     {
       name: 'chromium',
@@ -26,5 +36,28 @@ export default defineConfig({
         viewport: { width: 1920, height: 1080 }, // Full HD for complete UI visibility
       },
     },
-  ],
+    {
+      name: 'firefox',
+      use: {
+        ...devices['Desktop Firefox'],
+        viewport: { width: 1920, height: 1080 },
+      },
+    },
+    {
+      name: 'webkit',
+      use: {
+        ...devices['Desktop Safari'],
+        viewport: { width: 1920, height: 1080 },
+      },
+    },
+    // Phones: touch input (makeMoveViaUI taps the board), mobile viewport + user agent
+    {
+      name: 'mobile-chrome',
+      use: { ...devices['Pixel 7'] },
+    },
+    {
+      name: 'mobile-safari',
+      use: { ...devices['iPhone 14'] },
+    },
+  ].filter(project => selectedBrowsers === 'all' || selectedBrowsers.split(',').includes(project.name)),
 });
@@ -0,0 +1,82 @@
+import { test, expect } from '../helpers/fixtures';
+import {
+  createSeriesChallenge,
+  completeBanPickPhase,
+  executeSeriesResult,
+  waitForFinishedPage,
+  lobbySelectors,
+  gameSelectors,
+} from '../helpers/series';
+import { openingsTabSelectors } from '../helpers/openings-tab';
+import { A11yReport, withA11yAudits } from '../helpers/a11y';
+
+/**
+ * Series Accessibility E2E Test
+ *
+ * Plays one series and audits P1's view of every Opening Duel screen with axe
+ * (WCAG 2.1 A/AA) plus a keyboard-operability check (helpers/a11y.ts). The
+ * per-screen report is attached as a11y-report.json / a11y-summary.md.
+ *
+ * Report only by default; A11Y_STRICT=1 fails on critical/serious violations
+ * and keyboard gaps (e.g. clickable `.series-pick__opening` divs).
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 38 | (lease) | (lease) | ½ - 1 - 1 → lobby, pick, ban, openings tab, resting, roulette, showcase, finished |
+ */
+
+const strict = !!process.env.A11Y_STRICT;
+
+test.describe('Test 38: Accessibility', () => {
+  test.describe.configure({ timeout: 240000 });
+
+  test('[Test 38] Opening Duel screens pass accessibility audits', async ({ duelPair, shoot }) => {
+    const { p1User, p2User, player1, player2 } = duelPair;
+    const report = new A11yReport();
+    // Every P1 screenshot of a series screen is also audited (first one per screen)
+    const auditShoot = withA11yAudits(shoot, player1, report);
+    let seriesId = '';
+
+    await test.step('Lobby Opening Duel buttons', async () => {
+      await expect(player1.locator(lobbySelectors.openingDuelBtn)).toBeVisible({ timeout: 10000 });
+      await report.audit(player1, 'lobby');
+    });
+
+    await test.step('Create series + Pick/Ban (pick, ban)', async () => {
+      seriesId = await createSeriesChallenge(player1, player2, p2User.username);
+      await completeBanPickPhase(player1, player2, undefined, auditShoot);
+    });
+
+    await test.step('Game page Openings tab', async () => {
+      await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 30000 });
+      await player1.locator(openingsTabSelectors.openingsTab).click();
+      await expect(player1.locator(openingsTabSelectors.subTab).first()).toBeVisible({ timeout: 5000 });
+      await report.audit(player1, 'openings-tab');
+    });
+
+    await test.step('Play ½ - 1 - 1 (resting, roulette, showcase)', async () => {
+      await executeSeriesResult(player1, player2, p1User.username, p2User.username, '1/2 - 1 - 1', seriesId, auditShoot);
+    });
+
+    await test.step('Finished page', async () => {
+      await waitForFinishedPage(player1, seriesId, 30000);
+      await report.audit(player1, 'finished');
+    });
+
+    await test.step('Report', async () => {
+      const summary = report.format();
+      console.log(summary);
+      await test.info().attach('a11y-report.json', {
+        body: JSON.stringify(report.results, null, 2),
+        contentType: 'application/json',
+      });
+      await test.info().attach('a11y-summary.md', { body: summary, contentType: 'text/markdown' });
+
+      const blocking = report.blocking();
+      for (const { screen, issue } of blocking) {
+        test.info().annotations.push({ type: `a11y: ${screen}`, description: issue });
+      }
+      if (strict) expect(blocking, 'critical/serious violations and keyboard gaps').toEqual([]);
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { users } from '../helpers/auth';
-import { cleanupPairData } from '../helpers/cleanup';
+import type { BrowserContext } from '@playwright/test';
+import { test, expect } from '../helpers/fixtures';
+import { leaseAccounts } from '../helpers/accounts';
 import {
   selectOpenings,
   confirm,
@@ -16,7 +16,6 @@ import {
   getSeriesData,
   abortExistingGames,
   gameSelectors,
-  type ScreenshotFn,
 } from '../helpers/series';
 
 /**
@@ -32,30 +31,21 @@ import {
  *
  * | User | Scenario |
  * |------|----------|
- * | mateo | Solo vs Stockfish level 1, verify AI move, then forfeit |
+ * | (lease) | Solo vs Stockfish level 1, verify AI move, then forfeit |
+ *
+ * The single human account is leased with `leaseAccounts(1)` (helpers/accounts.ts).
  */
 
-test.describe('AI Opening Duel: mateo vs Stockfish', () => {
+test.describe('AI Opening Duel: human vs Stockfish', () => {
   test.describe.configure({ timeout: 180000 });
 
-  const testUsers = ['mateo'];
-  test.beforeAll(() => cleanupPairData(testUsers));
-
-  test('Stockfish makes a move, then series forfeit', async ({ browser }) => {
-    const context = await browser.newContext({ storageState: users.mateo.storageState });
-    const page = await context.newPage();
-
-    let screenshotCounter = 0;
-    const takeScreenshot: ScreenshotFn = async (name, p) => {
-      screenshotCounter++;
-      const label = `${String(screenshotCounter).padStart(2, '0')}-${name}`;
-      await test.info().attach(label, {
-        body: await p.screenshot({ fullPage: true }),
-        contentType: 'image/png',
-      });
-    };
+  test('Stockfish makes a move, then series forfeit', async ({ browser, shoot }, testInfo) => {
+    const lease = await leaseAccounts(1, testInfo.title);
+    let context: BrowserContext | undefined;
 
     try {
+      context = await browser.newContext({ storageState: lease.users[0].storageState });
+      const page = await context.newPage();
       let seriesId = '';
 
       // Step 1: Navigate to lobby and clean up existing games
@@ -77,7 +67,7 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
         // Wait for modal
         const gameSetup = page.locator('.game-setup');
         await expect(gameSetup).toBeVisible({ timeout: 5000 });
-        await takeScreenshot('ai-modal', page);
+        await shoot('ai-modal', page);
 
         // Submit with default settings (5+3, level 1)
         const submitBtn = page.locator('.game-setup button.lobby__start__button');
@@ -90,14 +80,14 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
         seriesId = match?.[1] || '';
         expect(seriesId).toBeTruthy();
         console.log(`[AI Test] Series created: ${seriesId}`);
-        await takeScreenshot('pick-page', page);
+        await shoot('pick-page', page);
       });
 
       // Step 3: Pick phase (AI picks already confirmed on creation)
       await test.step('Complete pick phase', async () => {
         await waitForPhase(page, 'Pick Phase');
         await selectOpenings(page, 5);
-        await takeScreenshot('picks-selected', page);
+        await shoot('picks-selected', page);
         await confirm(page);
       });
 
@@ -106,7 +96,7 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
         await waitForPhase(page, 'Ban Phase', 15000);
         await waitForSnabbdomReady(page);
         await selectOpenings(page, 2);
-        await takeScreenshot('bans-selected', page);
+        await shoot('bans-selected', page);
         await confirm(page);
       });
 
@@ -114,7 +104,7 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
       await test.step('Wait for game to start', async () => {
         await waitForGamePage(page, 45000);
         await expect(page.locator(gameSelectors.board)).toBeVisible({ timeout: 5000 });
-        await takeScreenshot('game-started', page);
+        await shoot('game-started', page);
       });
 
       // Step 6: Verify Stockfish makes a move via fishnet
@@ -131,7 +121,7 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
         if (weAreWhite) {
           // We're white → make our move first, then wait for AI response
           await makeAnyMove(page);
-          await takeScreenshot('human-moved', page);
+          await shoot('human-moved', page);
 
           let aiResponded = false;
           for (let i = 0; i < 60; i++) {
@@ -162,18 +152,18 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
 
           // Now make our move (so forfeit can work on an active game)
           await makeAnyMove(page);
-          await takeScreenshot('human-moved', page);
+          await shoot('human-moved', page);
         }
-        await takeScreenshot('ai-verified', page);
+        await shoot('ai-verified', page);
       });
 
       // Step 7: Forfeit the series
       await test.step('Forfeit series', async () => {
         await clickSeriesForfeitButton(page);
-        await takeScreenshot('forfeit-confirm', page);
+        await shoot('forfeit-confirm', page);
         await confirmSeriesForfeit(page);
         await page.waitForTimeout(2000);
-        await takeScreenshot('after-forfeit', page);
+        await shoot('after-forfeit', page);
       });
 
       // Step 8: Verify series finished with AI as winner
@@ -190,10 +180,11 @@ test.describe('AI Opening Duel: mateo vs Stockfish', () => {
         console.log(
           `[AI Test] Series ${seriesId} finished. Winner: ${data!.winner}, ForfeitBy: ${data!.forfeitBy}, Scores: ${data!.scores}`,
         );
-        await takeScreenshot('series-verified', page);
+        await shoot('series-verified', page);
       });
     } finally {
-      await context.close();
+      await context?.close();
+      lease.release();
     }
   });
 });
@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+import { autoFillProblems } from '../helpers/auto-fill';
+import { PRESETS } from '../helpers/game-opening';
+import type { PlayerIndex, SeriesOpening } from '../helpers/series-api';
+
+/**
+ * Pick/Ban Auto-fill Rule Tests
+ *
+ * runPickPhase / runBanPhase check the server's auto-fill after every
+ * timeout behavior (helpers/auto-fill.ts), so Tests 1-6 and every flow or
+ * walk with a timeout exercise it against the server. Test 49 checks the
+ * rules themselves on hand-made snapshots - no browser.
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 49 | - | - | autoFillProblems: kept selections, own pool, opponent picks, duplicates, counts |
+ */
+
+const p1Picks = PRESETS.slice(0, 5);
+const p2Picks = PRESETS.slice(5, 10);
+
+function openings(picks: [string[], string[]], bans: [string[], string[]] = [[], []]): { openings: SeriesOpening[] } {
+  const entries = (names: string[], source: 'pick' | 'ban', owner: PlayerIndex) =>
+    names.map(name => ({ name, fen: '', source, owner, usedInRound: null }));
+  return {
+    openings: [
+      ...entries(picks[0], 'pick', 0),
+      ...entries(picks[1], 'pick', 1),
+      ...entries(bans[0], 'ban', 0),
+      ...entries(bans[1], 'ban', 1),
+    ],
+  };
+}
+
+// ===== Test 49: Auto-fill rules (no browser) =====
+test.describe('Test 49: Pick/ban auto-fill rules', () => {
+  test('[Test 49] Partial and empty timeouts filled by the rules pass', () => {
+    const snapshot = openings([p1Picks, p2Picks], [p2Picks.slice(0, 2), p1Picks.slice(3, 5)]);
+
+    const partial = 'partial-timeout' as const;
+    const none = 'none-timeout' as const;
+
+    expect(autoFillProblems('pick', snapshot, 0, { behavior: partial, selected: p1Picks.slice(0, 2), offered: PRESETS })).toEqual([]);
+    expect(autoFillProblems('pick', snapshot, 1, { behavior: none, selected: [], offered: PRESETS })).toEqual([]);
+    expect(autoFillProblems('ban', snapshot, 0, { behavior: partial, selected: p2Picks.slice(0, 1), offered: p2Picks })).toEqual([]);
+    expect(autoFillProblems('ban', snapshot, 1, { behavior: none, selected: [], offered: p1Picks })).toEqual([]);
+  });
+
+  test('[Test 49] Dropped selections, foreign picks and wrong counts are reported', () => {
+    // Pool without the last preset; P1 had selected the last two by hand
+    const selection = { behavior: 'partial-timeout' as const, selected: PRESETS.slice(8), offered: PRESETS.slice(0, 9) };
+    const picks = [...p1Picks.slice(0, 3), p1Picks[0], PRESETS[9], PRESETS[6]];
+    const problems = autoFillProblems('pick', openings([picks, p2Picks]), 0, selection);
+
+    expect(problems).toEqual([
+      'player 0 picks (partial-timeout): 6 instead of 5',
+      `player 0 picks (partial-timeout): "${p1Picks[0]}" more than once`,
+      `player 0 picks (partial-timeout): manual selection "${PRESETS[8]}" was dropped`,
+      `player 0 picks (partial-timeout): "${PRESETS[9]}" is not in the own pool`,
+    ]);
+  });
+
+  test('[Test 49] Bans must hit distinct opponent picks', () => {
+    const selection = { behavior: 'none-timeout' as const, selected: [], offered: p2Picks };
+
+    const ownPick = autoFillProblems('ban', openings([p1Picks, p2Picks], [[p2Picks[0], p1Picks[0]], []]), 0, selection);
+    expect(ownPick).toEqual([`player 0 bans (none-timeout): "${p1Picks[0]}" is not in the opponent's picks`]);
+
+    const twice = autoFillProblems('ban', openings([p1Picks, p2Picks], [[p2Picks[0], p2Picks[0]], []]), 0, selection);
+    expect(twice).toEqual([`player 0 bans (none-timeout): "${p2Picks[0]}" more than once`]);
+
+    const short = autoFillProblems('ban', openings([p1Picks, p2Picks], [[p2Picks[0]], []]), 0, selection);
+    expect(short).toEqual(['player 0 bans (none-timeout): 1 instead of 2']);
+  });
+});
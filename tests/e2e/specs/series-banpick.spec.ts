@@ -1,31 +1,27 @@
-import { test, expect } from '@playwright/test';
-import { createTwoPlayerContexts, loginBothPlayers } from '../helpers/auth';
-import { cleanupPairData } from '../helpers/cleanup';
+import { test, expect } from '../helpers/fixtures';
 import { testScenarios } from '../helpers/scenarios';
 import {
-  createSeriesChallenge,
   completeBanPickPhase,
   executeSeriesResult,
   isSeriesFinished,
   waitForFinishedPage,
   verifyFinishedPageUI,
-  type ScreenshotFn,
 } from '../helpers/series';
 
 /**
  * Series Ban/Pick E2E Tests
  *
- * Test Scenario Matrix:
+ * Test Scenario Matrix (players are leased per test via the `duelPair` fixture):
  *
- * | # | P1 | P2 | pick-p1 | pick-p2 | ban-p1 | ban-p2 | series result (p1) |
- * |---|----|----|---------|---------|--------|--------|-------------------|
- * | 0 | elena | hans | confirm | confirm | confirm | confirm | 0 - 1/2 - 1 - 1 |
- * | 1 | yulia | luis | confirm | full-timeout | confirm | none-timeout | 1 - 1 - 1 |
- * | 2 | ana | lola | full-timeout | confirm | none-timeout | confirm | 0 - 1 - 0 - 1 - 1/2 - 1 |
- * | 3 | carlos | nina | partial-timeout | confirm | confirm | partial-timeout | 0 - 0 - 1 - 1 - 1 |
- * | 4 | oscar | petra | confirm | partial-timeout | partial-timeout | confirm | 1 - 1/2 - 1 |
- * | 5 | boris | david | none-timeout | confirm | confirm | full-timeout | 1 - 0 - 1 - 0 - 1/2 - 1 |
- * | 6 | mei | ivan | confirm | none-timeout | full-timeout | confirm | 0 - 1 - 1 - 1 |
+ * | # | pick-p1 | pick-p2 | ban-p1 | ban-p2 | series result (p1) |
+ * |---|---------|---------|--------|--------|-------------------|
+ * | 0 | confirm | confirm | confirm | confirm | 0 - 1/2 - 1 - 1 |
+ * | 1 | confirm | full-timeout | confirm | none-timeout | 1 - 1 - 1 |
+ * | 2 | full-timeout | confirm | none-timeout | confirm | 0 - 1 - 0 - 1 - 1/2 - 1 |
+ * | 3 | partial-timeout | confirm | confirm | partial-timeout | 0 - 0 - 1 - 1 - 1 |
+ * | 4 | confirm | partial-timeout | partial-timeout | confirm | 1 - 1/2 - 1 |
+ * | 5 | none-timeout | confirm | confirm | full-timeout | 1 - 0 - 1 - 0 - 1/2 - 1 |
+ * | 6 | confirm | none-timeout | full-timeout | confirm | 0 - 1 - 1 - 1 |
  *
  * Pick/Ban Behaviors:
  * - confirm: Select required amount and confirm button
@@ -71,95 +67,64 @@ function calculateTimeout(
 
 // Generate tests from scenario matrix
 for (const scenario of testScenarios) {
-  const { id, player1: p1User, player2: p2User, pick, ban, seriesResult, description } = scenario;
-  const pairUsers = [p1User.username, p2User.username];
+  const { id, pick, ban, seriesResult, description } = scenario;
 
   const timeout = calculateTimeout(seriesResult, pick, ban);
 
-  test.describe(`Test ${id}: ${p1User.username} vs ${p2User.username}`, () => {
+  test.describe(`Test ${id}`, () => {
     test.describe.configure({ timeout });
 
-    test.beforeAll(() => cleanupPairData(pairUsers));
-
-    test(`[Test ${id}] ${description}`, async ({ browser }) => {
-      const { player1Context, player2Context, player1, player2 } = await createTwoPlayerContexts(
-        browser,
-        p1User,
-        p2User
-      );
-
-      // Screenshot helper: attaches screenshot to test report with sequential numbering
-      let screenshotCounter = 0;
-      const takeScreenshot: ScreenshotFn = async (name, page) => {
-        screenshotCounter++;
-        const label = `${String(screenshotCounter).padStart(2, '0')}-${name}`;
-        await test.info().attach(label, {
-          body: await page.screenshot({ fullPage: true }),
-          contentType: 'image/png',
-        });
-      };
-
-      let seriesId = '';
-
-      try {
-        // ===== STEP 1: Create Series =====
-        await test.step('Create series and reach Pick Phase', async () => {
-          await loginBothPlayers(player1, player2, p1User, p2User);
-          seriesId = await createSeriesChallenge(player1, player2, p2User.username);
-          await takeScreenshot('series-created', player1);
-        });
-
-        // ===== STEP 2: Complete Ban/Pick Phase =====
-        await test.step(`Ban/Pick: pick(${pick.p1}/${pick.p2}) ban(${ban.p1}/${ban.p2})`, async () => {
-          await completeBanPickPhase(player1, player2, { pick, ban }, takeScreenshot);
-        });
-
-        // ===== STEP 3: Execute Series =====
-        await test.step(`Execute series: ${seriesResult}`, async () => {
-          await executeSeriesResult(
-            player1,
-            player2,
-            p1User.username,
-            p2User.username,
-            seriesResult,
-            seriesId,
-            takeScreenshot
-          );
-        });
-
-        // ===== STEP 4: Verify Series Finished =====
-        await test.step('Verify series finished', async () => {
-          const finished = await isSeriesFinished(player1, seriesId);
-          expect(finished).toBe(true);
-        });
-
-        // ===== STEP 5: Verify Finished Page =====
-        await test.step('Verify finished page', async () => {
-          // Wait for both players to be redirected to finished page
-          await waitForFinishedPage(player1, seriesId);
-          await waitForFinishedPage(player2, seriesId);
-
-          const gameCount = seriesResult.split(' - ').length;
-
-          // Verify P1's finished page UI
-          const p1UI = await verifyFinishedPageUI(player1, gameCount);
-          expect(['Victory!', 'Defeat']).toContain(p1UI.banner);
-          expect(p1UI.gameRows).toBeGreaterThanOrEqual(gameCount);
-
-          // Verify P2's finished page UI (opposite banner)
-          const p2UI = await verifyFinishedPageUI(player2, gameCount);
-          expect(['Victory!', 'Defeat']).toContain(p2UI.banner);
-
-          // Banners should be opposite (one Victory!, one Defeat)
-          expect(p1UI.banner).not.toBe(p2UI.banner);
-
-          await takeScreenshot('finished-page-p1', player1);
-          await takeScreenshot('finished-page-p2', player2);
-        });
-      } finally {
-        await player1Context.close();
-        await player2Context.close();
-      }
+    test(`[Test ${id}] ${description}`, async ({ duelPair, series, shoot }) => {
+      const { p1User, p2User, player1, player2 } = duelPair;
+      console.log(`[Test ${id}] Series ${series.id}`);
+
+      // ===== STEP 1: Complete Ban/Pick Phase =====
+      await test.step(`Ban/Pick: pick(${pick.p1}/${pick.p2}) ban(${ban.p1}/${ban.p2})`, async () => {
+        await completeBanPickPhase(player1, player2, { pick, ban }, shoot);
+      });
+
+      // ===== STEP 2: Execute Series =====
+      await test.step(`Execute series: ${seriesResult}`, async () => {
+        await executeSeriesResult(
+          player1,
+          player2,
+          p1User.username,
+          p2User.username,
+          seriesResult,
+          series.id,
+          shoot
+        );
+      });
+
+      // ===== STEP 3: Verify Series Finished =====
+      await test.step('Verify series finished', async () => {
+        const finished = await isSeriesFinished(player1, series.id);
+        expect(finished).toBe(true);
+      });
+
+      // ===== STEP 4: Verify Finished Page =====
+      await test.step('Verify finished page', async () => {
+        // Wait for both players to be redirected to finished page
+        await waitForFinishedPage(player1, series.id);
+        await waitForFinishedPage(player2, series.id);
+
+        const gameCount = seriesResult.split(' - ').length;
+
+        // Verify P1's finished page UI
+        const p1UI = await verifyFinishedPageUI(player1, gameCount);
+        expect(['Victory!', 'Defeat']).toContain(p1UI.banner);
+        expect(p1UI.gameRows).toBeGreaterThanOrEqual(gameCount);
+
+        // Verify P2's finished page UI (opposite banner)
+        const p2UI = await verifyFinishedPageUI(player2, gameCount);
+        expect(['Victory!', 'Defeat']).toContain(p2UI.banner);
+
+        // Banners should be opposite (one Victory!, one Defeat)
+        expect(p1UI.banner).not.toBe(p2UI.banner);
+
+        await shoot('finished-page-p1', player1);
+        await shoot('finished-page-p2', player2);
+      });
     });
   });
 }
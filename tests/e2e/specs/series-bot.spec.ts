@@ -0,0 +1,121 @@
+import type { BrowserContext } from '@playwright/test';
+import { test, expect } from '../helpers/fixtures';
+import { DuelBot, checkSeriesProtocol } from '../helpers/duel-bot';
+import {
+  selectors,
+  createSeriesViaApi,
+  waitForSeriesRedirect,
+  executePickBanBehavior,
+  waitForPhase,
+  waitForGamePage,
+  isMyTurn,
+  makeAnyMove,
+  confirmNextInResting,
+  waitForFinishedPage,
+} from '../helpers/series';
+import { SeriesApiClient, SeriesStatus, playerIndexOf } from '../helpers/series-api';
+import { SeriesEventTap } from '../helpers/series-events';
+
+/**
+ * Browserless Bot E2E Test
+ *
+ * P1 plays in the browser, P2 is a DuelBot (helpers/duel-bot.ts) speaking
+ * lila-ws directly: it accepts the challenge, picks/bans/confirms over the
+ * series socket, moves over the round socket, resigns after its first move,
+ * confirms Resting and selects the next opening as the loser. The frames P1's
+ * browser sends are recorded and the bot's series messages are checked
+ * against them (`checkSeriesProtocol`). Both accounts come from the
+ * `duelAccounts` fixture; only P1 gets a browser context.
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 31 | (lease, browser) | (lease, DuelBot) | Bot resigns every game → P1 wins 3-0, bot messages = browser frames |
+ */
+
+test.describe('Test 31: Browser vs DuelBot', () => {
+  test.describe.configure({ timeout: 240000 });
+
+  test('[Test 31] checkSeriesProtocol compares field names and types (no browser)', () => {
+    const frames = [
+      { t: 'pick', d: { ids: ['a', 'b'] } },
+      { t: 'ban', d: { openingIds: ['a'] } },
+      { t: 'rest', d: { ready: 'yes' } },
+      { t: 'confirm' },
+    ];
+    expect(checkSeriesProtocol(frames)).toEqual({
+      checked: ['pick', 'ban', 'confirm', 'rest'],
+      problems: ['ban.d.ids: bot sends array, browser sent missing', 'rest.d.ready: bot sends boolean, browser sent string'],
+    });
+  });
+
+  test('[Test 31] DuelBot plays a whole series without a browser', async ({ browser, duelAccounts, shoot }) => {
+    const [p1User, p2User] = duelAccounts;
+    let context: BrowserContext | undefined;
+    let connectedBot: DuelBot | undefined;
+
+    try {
+      context = await browser.newContext({ storageState: p1User.storageState });
+      const player1 = await context.newPage();
+      // Records P1's outgoing frames - the reference for the bot's messages
+      const p1Frames = SeriesEventTap.attach(player1, 'P1');
+      const bot = (connectedBot = await DuelBot.connect(p2User, { resignAfterMoves: 1 }));
+      let seriesId = '';
+      let botRun!: ReturnType<DuelBot['run']>;
+
+      await test.step('Create series (P1 challenges, bot accepts)', async () => {
+        await player1.goto('/');
+        const challengeId = await createSeriesViaApi(player1, p2User.username);
+        await player1.goto(`/${challengeId}`);
+        await bot.acceptChallenge(challengeId);
+        seriesId = await waitForSeriesRedirect(player1);
+        await bot.join(seriesId);
+        botRun = bot.run({ timeout: 200000 });
+        botRun.catch(() => {}); // surfaced when awaited below
+        await shoot('series-created', player1);
+      });
+
+      await test.step('Pick/Ban: P1 via UI, bot via socket', async () => {
+        await executePickBanBehavior(player1, 'confirm', 'pick');
+        await waitForPhase(player1, 'Ban Phase', 30000);
+        await executePickBanBehavior(player1, 'confirm', 'ban');
+        await shoot('ban-confirmed', player1);
+      });
+
+      for (let gameNum = 1; gameNum <= 3; gameNum++) {
+        await test.step(`Game ${gameNum}: P1 moves until the bot resigns`, async () => {
+          await waitForGamePage(player1, 60000);
+          const deadline = Date.now() + 60000;
+          while (!(await player1.locator(selectors.restingFollowUp).isVisible().catch(() => false))) {
+            if (Date.now() > deadline) throw new Error(`[Test 31] Bot did not resign game ${gameNum}`);
+            if (await isMyTurn(player1, p1User.username)) await makeAnyMove(player1);
+            else await player1.waitForTimeout(500);
+          }
+          await shoot(`game${gameNum}-resting`, player1);
+          await confirmNextInResting(player1);
+        });
+      }
+
+      await test.step('Verify series finished (P1 wins 3-0)', async () => {
+        await waitForFinishedPage(player1, seriesId, 40000);
+        const final = await botRun;
+        expect(final.status).toBe(SeriesStatus.Finished);
+
+        const snapshot = await SeriesApiClient.for(player1).get(seriesId);
+        expect(snapshot.winner).toBe(playerIndexOf(snapshot, p1User.username));
+        expect(snapshot.games.length).toBe(3);
+        await shoot('finished-page', player1);
+        await test.info().attach('bot-log', { body: bot.log.join('\n'), contentType: 'text/plain' });
+      });
+
+      await test.step("Bot's series messages match the browser's frames", async () => {
+        const { checked, problems } = checkSeriesProtocol(p1Frames.sent);
+        console.log(`[Test 31] Series protocol compared for: ${checked.join(', ')}`);
+        expect(checked).toEqual(expect.arrayContaining(['pick', 'ban', 'confirm']));
+        expect(problems).toEqual([]);
+      });
+    } finally {
+      await connectedBot?.close();
+      await context?.close();
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { test, expect } from '../helpers/fixtures';
+import { completeBanPickPhase, createSeriesChallenge, waitForGamePage } from '../helpers/series';
+import { SeriesApiClient } from '../helpers/series-api';
+import { attachSeriesEvents } from '../helpers/series-events';
+
+/**
+ * Series WebSocket Event Tests
+ *
+ * waitForPhase / waitForNextGame end on the server's `phase` events when the
+ * pages are tapped (helpers/series-events.ts). This spec pins that lila-ws
+ * actually pushes them, in phase order, to both players.
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 50 | (lease) | (lease) | pick ✅/✅, ban ✅/✅ → `phase` events Banning → RandomSelecting on both sockets, then forfeit |
+ */
+
+/** Series phases in the order a series can move through them */
+const phaseOrder = ['Picking', 'Banning', 'RandomSelecting', 'Playing', 'Resting', 'Selecting', 'Finished'];
+
+// ===== Test 50: Phase event order =====
+test.describe('Test 50: Phase events', () => {
+  test('[Test 50] Pick → Ban → roulette pushes phase events in order', async ({ duelPair, shoot }) => {
+    const { player1, player2, p2User } = duelPair;
+    // Before createSeriesChallenge opens the sockets
+    const taps = attachSeriesEvents(player1, player2);
+
+    const seriesId = await createSeriesChallenge(player1, player2, p2User.username);
+    await completeBanPickPhase(player1, player2, undefined, shoot);
+    await waitForGamePage(player1);
+    await waitForGamePage(player2);
+
+    for (const [label, tap] of Object.entries(taps)) {
+      const phases = tap.phases();
+      console.log(`[Test 50] ${label} phase events: ${phases.join(' → ')}`);
+      expect(phases.slice(0, 2), `${label} first phase events`).toEqual(['Banning', 'RandomSelecting']);
+      const positions = phases.map(name => phaseOrder.indexOf(name));
+      expect(positions, `${label} known phases only`).not.toContain(-1);
+      expect(positions, `${label} phases never go back`).toEqual([...positions].sort((a, b) => a - b));
+    }
+
+    // Leave no running series behind for the leased accounts
+    const { ok, status } = await SeriesApiClient.for(player1).forfeit(seriesId);
+    expect(ok, `forfeit → ${status}`).toBe(true);
+  });
+});
@@ -1,21 +1,6 @@
-import { test, expect } from '@playwright/test';
-import { users, createTwoPlayerContexts, loginBothPlayers } from '../helpers/auth';
-import { cleanupPairData } from '../helpers/cleanup';
-import {
-  createSeriesChallenge,
-  completeBanPickPhase,
-  playBothMoves,
-  isSeriesFinished,
-  getSeriesWinner,
-  getPlayerIndex,
-  clickSeriesForfeitButton,
-  confirmSeriesForfeit,
-  waitForFinishedPage,
-  verifyFinishedPageUI,
-  gameSelectors,
-  type ScreenshotFn,
-} from '../helpers/series';
-import { verifyOpeningsTab } from '../helpers/openings-tab';
+import { test } from '../helpers/fixtures';
+import { flowScenarios } from '../helpers/scenarios';
+import { ScenarioRunner } from '../helpers/series-flow';
 
 /**
  * Series Forfeit E2E Tests
@@ -25,252 +10,33 @@ import { verifyOpeningsTab } from '../helpers/openings-tab';
  * - Clicking X shows confirm dialog, confirming forfeits the entire series
  * - Forfeit ends current game (resign if moves played, abort if not) and series
  *
- * | # | P1 | P2 | Scenario | Expected |
- * |---|----|----|----------|----------|
- * | 9 | fatima | diego | Forfeit after moves | Game resign, series finished, P2 wins |
- * | 10 | salma | benjamin | Forfeit before moves | Game abort, series finished, P2 wins |
+ * Scenarios live in `flowScenarios` (group: 'forfeit') in helpers/scenarios.ts;
+ * each test leases its two players via the `duelPair` fixture (helpers/fixtures.ts).
+ *
+ * | # | Scenario | Expected |
+ * |---|----------|----------|
+ * | 9 | Forfeit after moves | Game resign, series finished, P2 wins |
+ * | 10 | Forfeit before moves | Game abort, series finished, P2 wins |
  */
 
-// ===== Test 9: Forfeit during active game (after moves) =====
-test.describe('Test 9: fatima vs diego (Forfeit after moves)', () => {
-  test.describe.configure({ timeout: 120000 });
-
-  const pairUsers = ['fatima', 'diego'];
-  test.beforeAll(() => cleanupPairData(pairUsers));
-
-  test('[Test 9] Forfeit after moves → game resign, series finished', async ({ browser }) => {
-    const { player1Context, player2Context, player1, player2 } = await createTwoPlayerContexts(
-      browser,
-      users.fatima,
-      users.diego
-    );
-
-    let screenshotCounter = 0;
-    const takeScreenshot: ScreenshotFn = async (name, page) => {
-      screenshotCounter++;
-      const label = `${String(screenshotCounter).padStart(2, '0')}-${name}`;
-      await test.info().attach(label, {
-        body: await page.screenshot({ fullPage: true }),
-        contentType: 'image/png',
-      });
-    };
+// Generate tests from the flow scenario table (helpers/scenarios.ts)
+for (const scenario of flowScenarios.filter(s => s.group === 'forfeit')) {
+  const { id, steps, description, timeout } = scenario;
 
-    let seriesId = '';
+  test.describe(`Test ${id}`, () => {
+    test.describe.configure({ timeout });
 
-    try {
-      // Step 1: Create series
+    test(`[Test ${id}] ${description}`, async ({ duelPair, shoot }) => {
+      let runner!: ScenarioRunner;
       await test.step('Create series', async () => {
-        await loginBothPlayers(player1, player2, users.fatima, users.diego);
-        seriesId = await createSeriesChallenge(player1, player2, 'diego');
-        await takeScreenshot('series-created', player1);
-      });
-
-      // Step 2: Complete ban/pick phase (both confirm)
-      await test.step('Complete ban/pick phase', async () => {
-        await completeBanPickPhase(player1, player2, undefined, takeScreenshot);
+        runner = await ScenarioRunner.start(duelPair, [duelPair.p1User, duelPair.p2User], scenario, shoot);
       });
 
-      // Step 3: Verify 4-button layout in series game
-      await test.step('Verify series game has 4 buttons', async () => {
-        // Wait for game board
-        await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
-        await takeScreenshot('game-board-p1', player1);
-
-        // Verify forfeit button exists
-        const forfeitBtn = player1.locator(gameSelectors.seriesForfeitBtn);
-        await expect(forfeitBtn).toBeVisible({ timeout: 5000 });
-
-        // Verify resign button exists
-        const resignBtn = player1.locator(gameSelectors.resignBtn);
-        await expect(resignBtn).toBeVisible({ timeout: 5000 });
-
-        // Verify all 4 action buttons are present in .ricons
-        // forfeit (series-forfeit), takeback (takeback-yes), draw (draw-yes), resign
-        const ricons = player1.locator('.ricons');
-        await expect(ricons).toBeVisible({ timeout: 5000 });
-
-        const buttons = ricons.locator('button.fbt');
-        const buttonCount = await buttons.count();
-        console.log(`[Test 9] Button count in .ricons: ${buttonCount}`);
-        // 4 action buttons + analysis + board menu = 6 (but analysis may not be visible during play)
-        expect(buttonCount).toBeGreaterThanOrEqual(4);
-
-        await takeScreenshot('game-4-buttons', player1);
-      });
-
-      // Step 3.5: Verify Openings tab
-      await test.step('Verify Openings tab for both players', async () => {
-        await Promise.all([
-          verifyOpeningsTab(player1, seriesId, 'fatima', takeScreenshot, 1),
-          verifyOpeningsTab(player2, seriesId, 'diego', takeScreenshot, 1),
-        ]);
-      });
+      for (const step of steps) {
+        await test.step(step, () => runner.run(step));
+      }
 
-      // Step 4: Both players make moves
-      await test.step('Both players make moves', async () => {
-        await playBothMoves(player1, player2, 'fatima', 'diego');
-        await takeScreenshot('after-moves-p1', player1);
-      });
-
-      // Step 5: P1 forfeits series
-      await test.step('P1 (fatima) forfeits series', async () => {
-        // Click forfeit button
-        await clickSeriesForfeitButton(player1);
-        await takeScreenshot('forfeit-confirm-dialog', player1);
-
-        // Confirm forfeit
-        await confirmSeriesForfeit(player1);
-        await takeScreenshot('after-forfeit-p1', player1);
-
-        // Wait for game to end
-        await player1.waitForTimeout(2000);
-        await takeScreenshot('game-ended-p1', player1);
-        await takeScreenshot('game-ended-p2', player2);
-      });
-
-      // Step 6: Verify series finished with correct winner
-      await test.step('Verify series finished (diego wins)', async () => {
-        const finished = await isSeriesFinished(player1, seriesId);
-        expect(finished).toBe(true);
-
-        // Player ordering depends on random color, not who created the challenge
-        const fatimaIndex = await getPlayerIndex(player1, seriesId, 'fatima');
-        const winner = await getSeriesWinner(player1, seriesId);
-        console.log(`[Test 9] fatima index: ${fatimaIndex}, winner index: ${winner}`);
-        // fatima forfeits → the opponent (diego) should win
-        expect(winner).not.toBeNull();
-        expect(fatimaIndex).not.toBeNull();
-        expect(winner).toBe(1 - fatimaIndex!);
-
-        await takeScreenshot('series-verified', player1);
-      });
-
-      // Step 7: Verify finished page redirect
-      await test.step('Verify finished page redirect after forfeit', async () => {
-        await waitForFinishedPage(player1, seriesId);
-        await waitForFinishedPage(player2, seriesId);
-
-        const p1UI = await verifyFinishedPageUI(player1, 1);
-        const p2UI = await verifyFinishedPageUI(player2, 1);
-
-        // One should see Victory!, the other Defeat
-        expect(p1UI.banner).not.toBe(p2UI.banner);
-        expect(['Victory! (forfeit)', 'Defeat (forfeit)']).toContain(p1UI.banner);
-        expect(['Victory! (forfeit)', 'Defeat (forfeit)']).toContain(p2UI.banner);
-
-        await takeScreenshot('finished-page-p1', player1);
-        await takeScreenshot('finished-page-p2', player2);
-      });
-    } finally {
-      await player1Context.close();
-      await player2Context.close();
-    }
-  });
-});
-
-// ===== Test 10: Forfeit at game start (no moves) =====
-test.describe('Test 10: salma vs benjamin (Forfeit before moves)', () => {
-  test.describe.configure({ timeout: 120000 });
-
-  const pairUsers = ['salma', 'benjamin'];
-  test.beforeAll(() => cleanupPairData(pairUsers));
-
-  test('[Test 10] Forfeit before moves → game abort, series finished', async ({ browser }) => {
-    const { player1Context, player2Context, player1, player2 } = await createTwoPlayerContexts(
-      browser,
-      users.salma,
-      users.benjamin
-    );
-
-    let screenshotCounter = 0;
-    const takeScreenshot: ScreenshotFn = async (name, page) => {
-      screenshotCounter++;
-      const label = `${String(screenshotCounter).padStart(2, '0')}-${name}`;
-      await test.info().attach(label, {
-        body: await page.screenshot({ fullPage: true }),
-        contentType: 'image/png',
-      });
-    };
-
-    let seriesId = '';
-
-    try {
-      // Step 1: Create series
-      await test.step('Create series', async () => {
-        await loginBothPlayers(player1, player2, users.salma, users.benjamin);
-        seriesId = await createSeriesChallenge(player1, player2, 'benjamin');
-        await takeScreenshot('series-created', player1);
-      });
-
-      // Step 2: Complete ban/pick phase (both confirm)
-      await test.step('Complete ban/pick phase', async () => {
-        await completeBanPickPhase(player1, player2, undefined, takeScreenshot);
-      });
-
-      // Step 2.5: Verify Openings tab
-      await test.step('Verify Openings tab for both players', async () => {
-        await Promise.all([
-          verifyOpeningsTab(player1, seriesId, 'salma', takeScreenshot, 1),
-          verifyOpeningsTab(player2, seriesId, 'benjamin', takeScreenshot, 1),
-        ]);
-      });
-
-      // Step 3: Forfeit immediately without making moves
-      await test.step('P1 (salma) forfeits series immediately', async () => {
-        // Wait for game board
-        await expect(player1.locator(gameSelectors.board)).toBeVisible({ timeout: 10000 });
-        await takeScreenshot('game-start-p1', player1);
-
-        // Click forfeit button
-        await clickSeriesForfeitButton(player1);
-        await takeScreenshot('forfeit-confirm-dialog', player1);
-
-        // Confirm forfeit
-        await confirmSeriesForfeit(player1);
-        await takeScreenshot('after-forfeit-p1', player1);
-
-        // Wait for game to end
-        await player1.waitForTimeout(2000);
-        await takeScreenshot('game-ended-p1', player1);
-        await takeScreenshot('game-ended-p2', player2);
-      });
-
-      // Step 4: Verify series finished with correct winner
-      await test.step('Verify series finished (benjamin wins)', async () => {
-        const finished = await isSeriesFinished(player1, seriesId);
-        expect(finished).toBe(true);
-
-        // Player ordering depends on random color, not who created the challenge
-        const salmaIndex = await getPlayerIndex(player1, seriesId, 'salma');
-        const winner = await getSeriesWinner(player1, seriesId);
-        console.log(`[Test 10] salma index: ${salmaIndex}, winner index: ${winner}`);
-        // salma forfeits → the opponent (benjamin) should win
-        expect(winner).not.toBeNull();
-        expect(salmaIndex).not.toBeNull();
-        expect(winner).toBe(1 - salmaIndex!);
-
-        await takeScreenshot('series-verified', player1);
-      });
-
-      // Step 5: Verify finished page redirect
-      await test.step('Verify finished page redirect after forfeit', async () => {
-        await waitForFinishedPage(player1, seriesId);
-        await waitForFinishedPage(player2, seriesId);
-
-        const p1UI = await verifyFinishedPageUI(player1, 1);
-        const p2UI = await verifyFinishedPageUI(player2, 1);
-
-        // One should see Victory!, the other Defeat
-        expect(p1UI.banner).not.toBe(p2UI.banner);
-        expect(['Victory! (forfeit)', 'Defeat (forfeit)']).toContain(p1UI.banner);
-        expect(['Victory! (forfeit)', 'Defeat (forfeit)']).toContain(p2UI.banner);
-
-        await takeScreenshot('finished-page-p1', player1);
-        await takeScreenshot('finished-page-p2', player2);
-      });
-    } finally {
-      await player1Context.close();
-      await player2Context.close();
-    }
+      await test.step('Verify outcome', () => runner.verify());
+    });
   });
-});
+}
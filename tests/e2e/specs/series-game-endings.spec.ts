@@ -0,0 +1,103 @@
+import { Chess } from 'chess.js';
+import { test, expect } from '../helpers/fixtures';
+import { executeSeriesResult, parseSeriesResult } from '../helpers/series';
+import { SeriesApiClient, playerIndexOf, type PlayerIndex } from '../helpers/series-api';
+import { SeriesReferee, POOL_PER_PLAYER } from '../helpers/series-referee';
+import { planOutcome, type BoardTarget } from '../helpers/game-outcome';
+
+/**
+ * Natural Game Ending Tests
+ *
+ * Test 42 checks the planner (helpers/game-outcome.ts) from every default
+ * preset position - no browser. Test 43 plays a series whose games end by
+ * checkmate, stalemate, flag, threefold repetition and insufficient material,
+ * so scoring, resting, Selecting and sudden death see every game-end status
+ * the round module produces, not just resign and agreed draw.
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 42 | - | - | planOutcome reaches mate/stalemate/repetition/material from the 10 presets |
+ * | 43 | (lease) | (lease) | 1# - 1/2S - 0T - 1/2R - 1/2I - 0# (2.5-3.5, sudden death) |
+ */
+
+/** Default preset openings (project README "Opening Pool") as move lines */
+const PRESET_LINES: Record<string, string> = {
+  'Ruy Lopez: Marshall Attack': 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5',
+  'Italian Game: Classical Variation, Giuoco Pianissimo': 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d3',
+  "Queen's Gambit Declined: Normal Defense": 'd4 d5 c4 e6 Nc3 Nf6 Bg5 Be7 e3 O-O Nf3 h6',
+  'Catalan Opening: Open Defense, Classical Line': 'd4 Nf6 c4 e6 g3 d5 Bg2 dxc4 Nf3 Be7 O-O O-O Qc2 a6 Qxc4 b5 Qc2 Bb7',
+  "English Opening: King's English Variation, Two Knights Variation": 'c4 e5 Nc3 Nf6',
+  'Sicilian Defense: Najdorf Variation': 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6',
+  'Nimzo-Indian Defense': 'd4 Nf6 c4 e6 Nc3 Bb4',
+  'Benoni Defense': 'd4 Nf6 c4 c5 d5',
+  'Caro-Kann Defense: Classical Variation': 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5',
+  'French Defense: Winawer Variation': 'e4 e6 d4 d5 Nc3 Bb4',
+};
+
+function presetFen(line: string): string {
+  const chess = new Chess();
+  line.split(' ').forEach(san => chess.move(san));
+  return chess.fen();
+}
+
+/** Replay a planned line and report how the game ended */
+function replay(fen: string, target: BoardTarget, loser: 'w' | 'b'): { plies: number; ended: boolean; mated: string | null } {
+  const chess = new Chess(fen);
+  const line = planOutcome(fen, target, loser);
+  line.forEach(move => chess.move(move));
+  const ended = {
+    checkmate: chess.isCheckmate(),
+    stalemate: chess.isStalemate(),
+    threefold: chess.isThreefoldRepetition(),
+    'insufficient-material': chess.isInsufficientMaterial(),
+  }[target];
+  return { plies: line.length, ended, mated: chess.isCheckmate() ? chess.turn() : null };
+}
+
+// ===== Test 42: Planner (no browser) =====
+test.describe('Test 42: Natural ending planner', () => {
+  test('[Test 42] Checkmate either side and threefold from every preset', () => {
+    for (const [name, line] of Object.entries(PRESET_LINES)) {
+      const fen = presetFen(line);
+      for (const loser of ['w', 'b'] as const) {
+        const result = replay(fen, 'checkmate', loser);
+        expect(result.mated, `${name}: ${loser} mated in ${result.plies} plies`).toBe(loser);
+      }
+      expect(replay(fen, 'threefold', 'w').ended, `${name}: threefold`).toBe(true);
+    }
+  });
+
+  test('[Test 42] Stalemate and insufficient material', () => {
+    // The longest searches - one preset per side is enough to catch regressions
+    const [first, second] = Object.values(PRESET_LINES).map(presetFen);
+    expect(replay(first, 'stalemate', 'b').ended, 'stalemate (black boxed in)').toBe(true);
+    expect(replay(second, 'stalemate', 'w').ended, 'stalemate (white boxed in)').toBe(true);
+    expect(replay(first, 'insufficient-material', 'w').ended, 'insufficient material').toBe(true);
+  });
+});
+
+// ===== Test 43: Every game-end status in one series =====
+test.describe('Test 43: Series with natural game endings', () => {
+  // 6 games of up to ~180 UI moves, one of them waits out a full clock
+  test.describe.configure({ timeout: 60000 + 2 * POOL_PER_PLAYER * 300000 });
+  test.use({ seriesPhase: 'game' });
+
+  const seriesResult = '1# - 1/2S - 0T - 1/2R - 1/2I - 0#';
+
+  test(`[Test 43] ${seriesResult}`, async ({ duelPair, series, shoot }) => {
+    const { p1User, p2User, player1, player2 } = duelPair;
+
+    await test.step(`Execute series: ${seriesResult}`, async () => {
+      await executeSeriesResult(player1, player2, p1User.username, p2User.username, seriesResult, series.id, shoot);
+    });
+
+    await test.step('Replay the Series API snapshot through the referee', async () => {
+      const snapshot = await SeriesApiClient.for(player1).get(series.id);
+      const p1Index = playerIndexOf(snapshot, p1User.username) as PlayerIndex;
+      expect(p1Index).not.toBeNull();
+      expect(snapshot.games.length).toBe(parseSeriesResult(seriesResult).length);
+      expect(SeriesReferee.diffAgainstSnapshot(snapshot, p1Index), seriesResult).toEqual([]);
+      expect(snapshot.winner).toBe(p1Index === 0 ? 1 : 0);
+    });
+  });
+});
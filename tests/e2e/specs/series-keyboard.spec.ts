@@ -0,0 +1,98 @@
+import { test, expect } from '../helpers/fixtures';
+import {
+  waitForPhase,
+  waitForCountdownText,
+  waitForCountdownGone,
+  waitForGamePage,
+  selectors,
+} from '../helpers/series';
+import {
+  trackPointerInput,
+  pointerInputCount,
+  selectOpeningsByKeyboard,
+  confirmByKeyboard,
+  cancelByKeyboard,
+  executePickBanBehaviorByKeyboard,
+  expectPickLiveRegions,
+} from '../helpers/keyboard';
+
+/**
+ * Keyboard-only Pick/Ban E2E Test
+ *
+ * Both players complete Pick and Ban with the keyboard only
+ * (helpers/keyboard.ts): Tab into the grid, arrows + Space to select, Enter to
+ * confirm, Escape to cancel during the countdown. Opponent status and the
+ * countdown text must be live regions. No pointer press is allowed on the
+ * pick page (the `series` fixture creates the series through a Friend
+ * Challenge before the pick page opens, so those clicks are not counted).
+ *
+ * Marked fixme: the pick page (lila submodule, ui/series) has no keyboard
+ * handling or `aria-live` regions yet. Enable once that change lands.
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 39 | (lease) | (lease) | Keyboard pick → Escape in countdown → re-confirm → keyboard ban → game 1 |
+ */
+
+test.describe('Test 39: Keyboard-only Pick/Ban', () => {
+  test.describe.configure({ timeout: 120000 });
+  test.skip(({ isMobile }) => isMobile, 'Phones have no hardware keyboard');
+  test.fixme(true, 'Needs keyboard navigation and aria-live regions in ui/series (lila), not implemented yet');
+
+  test('[Test 39] Pick and Ban without a single mouse click', async ({ duelPair, series, shoot }) => {
+    const { player1, player2 } = duelPair;
+    console.log(`[Test 39] Series ${series.id}`);
+    // Counters restart with the pick page document
+    await Promise.all([trackPointerInput(player1), trackPointerInput(player2)]);
+
+    await test.step('Pick: arrows + Space, Enter → opponent status announced', async () => {
+      await waitForPhase(player1, 'Pick Phase');
+      await waitForPhase(player2, 'Pick Phase');
+      await expectPickLiveRegions(player1);
+      await expectPickLiveRegions(player2);
+
+      await Promise.all([selectOpeningsByKeyboard(player1, 5), selectOpeningsByKeyboard(player2, 5)]);
+      await shoot('pick-selected-by-keyboard', player1);
+
+      await confirmByKeyboard(player1);
+      await expect(player2.locator(selectors.opponentReady)).toBeVisible({ timeout: 5000 });
+      await expectPickLiveRegions(player2);
+    });
+
+    await test.step('Countdown: live region, Escape cancels, Enter re-confirms', async () => {
+      await confirmByKeyboard(player2);
+      await waitForCountdownText(player1, 5000);
+      await waitForCountdownText(player2, 5000);
+      await expectPickLiveRegions(player1);
+      await shoot('pick-countdown', player1);
+
+      await cancelByKeyboard(player1);
+      await waitForCountdownGone(player1, 5000);
+      await waitForCountdownGone(player2, 5000);
+      await shoot('pick-countdown-cancelled', player1);
+
+      await confirmByKeyboard(player1);
+      await waitForCountdownText(player1, 5000);
+      expect(await pointerInputCount(player1)).toBe(0);
+      expect(await pointerInputCount(player2)).toBe(0);
+    });
+
+    await test.step('Ban: keyboard only → game 1', async () => {
+      await waitForPhase(player1, 'Ban Phase', 15000);
+      await waitForPhase(player2, 'Ban Phase', 15000);
+      await Promise.all([trackPointerInput(player1), trackPointerInput(player2)]);
+
+      await Promise.all([
+        executePickBanBehaviorByKeyboard(player1, 'confirm', 'ban'),
+        executePickBanBehaviorByKeyboard(player2, 'confirm', 'ban'),
+      ]);
+      await waitForCountdownText(player1, 5000);
+      await shoot('ban-confirmed-by-keyboard', player1);
+      expect(await pointerInputCount(player1)).toBe(0);
+      expect(await pointerInputCount(player2)).toBe(0);
+
+      await Promise.all([waitForGamePage(player1, 30000), waitForGamePage(player2, 30000)]);
+      await shoot('game1-reached', player1);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { leaseAccounts } from '../helpers/accounts';
+import { runLoad, formatLoadReport } from '../helpers/load-runner';
+
+/**
+ * Series Load / Soak Test (opt-in)
+ *
+ * Starts N concurrent series between DuelBot pairs (helpers/load-runner.ts)
+ * and attaches a latency / timer drift / WS round-trip report. Skipped unless
+ * LOAD_SERIES is set:
+ *
+ *   LOAD_SERIES=10 npm run test:load                      # 10 series at once
+ *   LOAD_SERIES=10 LOAD_TIMERS=1 npm run test:load        # every phase runs out its timer
+ *   LOAD_SERIES=5 LOAD_SOAK_MIN=30 npm run test:load      # keep 5 running for 30 minutes
+ *
+ * | # | Scenario |
+ * |---|----------|
+ * | 32 | N concurrent bot series (2N leased accounts), summary report |
+ */
+
+const seriesCount = parseInt(process.env.LOAD_SERIES || '0', 10);
+const timers = !!process.env.LOAD_TIMERS;
+const soakMs = parseInt(process.env.LOAD_SOAK_MIN || '0', 10) * 60000;
+
+test.describe('Test 32: Load', () => {
+  test.skip(seriesCount === 0, 'Set LOAD_SERIES=N to run the load test');
+  // Browserless: run once, not per browser project
+  test.skip(({ browserName, isMobile }) => browserName !== 'chromium' || isMobile, 'Runs in the chromium project only');
+  // One series ≈ 3+ games; timer-driven phases add ~30s each
+  test.describe.configure({ timeout: 120000 + (timers ? 900000 : 300000) + soakMs });
+
+  test(`[Test 32] ${seriesCount} concurrent series${soakMs ? ` for ${soakMs / 60000} min` : ''}`, async () => {
+    const lease = await leaseAccounts(seriesCount * 2, 'Test 32', { timeout: 300000 });
+
+    try {
+      const report = await runLoad(lease.users, { series: seriesCount, timers, soakMs });
+      const summary = formatLoadReport(report);
+      console.log(summary);
+
+      await test.info().attach('load-report.json', {
+        body: JSON.stringify(report, null, 2),
+        contentType: 'application/json',
+      });
+      await test.info().attach('load-summary.md', { body: summary, contentType: 'text/markdown' });
+
+      // Aborted/failed series are data, not a reason to drop the report
+      expect.soft(report.totals.failed, 'failed series').toBe(0);
+      expect.soft(report.totals.aborted, 'aborted series').toBe(0);
+    } finally {
+      lease.release();
+    }
+  });
+});
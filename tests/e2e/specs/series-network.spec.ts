@@ -0,0 +1,46 @@
+import { test } from '../helpers/fixtures';
+import { flowScenarios } from '../helpers/scenarios';
+import { ScenarioRunner } from '../helpers/series-flow';
+
+/**
+ * Series Network Fault E2E Tests
+ *
+ * Brief connection trouble must not be treated like leaving:
+ * - Short outages (setOffline + silent sockets, shorter than the 5s offline
+ *   threshold) during Pick, Ban, a game or Resting → no abort / forfeit / loss
+ * - High latency while both confirm Resting → countdown and next game still start
+ * - Dropped socket frames mid-game → game goes on
+ *
+ * Faults come from helpers/network-faults.ts (Chromium only for throttling).
+ * Scenarios live in `flowScenarios` (group: 'network') in helpers/scenarios.ts.
+ *
+ * | # | Phase | Fault | Expected |
+ * |---|-------|-------|----------|
+ * | 33 | Pick, Ban | P2 3s outage in Pick, P1 3s outage in Ban | No abort, game 1 played (1-0) |
+ * | 34 | Playing | P1 3s outage after both moved | Game goes on (P2 resigns, 1-0) |
+ * | 35 | Resting | P2 3s outage | No forfeit, game 2 starts |
+ * | 36 | Resting, Playing | P2 1.5s latency through confirm + countdown, P1 drops 30% of frames | Game 2 played (1-1) |
+ */
+
+// Generate tests from the flow scenario table (helpers/scenarios.ts)
+for (const scenario of flowScenarios.filter(s => s.group === 'network')) {
+  const { id, steps, description, timeout } = scenario;
+
+  test.describe(`Test ${id}`, () => {
+    test.describe.configure({ timeout });
+
+    test(`[Test ${id}] ${description}`, async ({ duelPair, shoot, browserName }) => {
+      test.skip(browserName !== 'chromium' && steps.some(step => step.includes('-slow-')), 'CDP throttling is Chromium only');
+      let runner!: ScenarioRunner;
+      await test.step('Create series', async () => {
+        runner = await ScenarioRunner.start(duelPair, [duelPair.p1User, duelPair.p2User], scenario, shoot);
+      });
+
+      for (const step of steps) {
+        await test.step(step, () => runner.run(step));
+      }
+
+      await test.step('Verify outcome', () => runner.verify());
+    });
+  });
+}
@@ -0,0 +1,62 @@
+import { test } from '../helpers/fixtures';
+import { runRandomWalk } from '../helpers/series-walk';
+
+/**
+ * Series Random Walk E2E Tests (model-based)
+ *
+ * Instead of a hand-written path, each test asks the state machine model
+ * (helpers/series-model.ts) for random valid steps - pick/ban behaviors,
+ * game outcomes, forfeits, disconnects, resting confirm/cancel/timeout,
+ * selecting/timeout - and checks every reached state against the Series API.
+ *
+ * Without WALK_SEEDS each walk draws its seed when it runs (titles must be
+ * the same in every worker process, so they only number the walks). The seed
+ * is logged and kept as the `walk-seed` annotation; reproduce a failure with it:
+ *   WALK_SEEDS=1234 npx playwright test series-random-walk
+ *
+ * Each walk leases its own two players and series via the `duelPair` / `series`
+ * fixtures (helpers/fixtures.ts).
+ *
+ * | # | Scenario |
+ * |---|----------|
+ * | 30 | N random walks (WALK_SEEDS or WALK_COUNT, default 2) |
+ */
+
+/** Pinned seeds (WALK_SEEDS), or null per walk = draw the seed at run time */
+function walkSeeds(): Array<number | null> {
+  if (process.env.WALK_SEEDS) {
+    return process.env.WALK_SEEDS.split(',').map(s => parseInt(s.trim(), 10));
+  }
+  const count = parseInt(process.env.WALK_COUNT || '2', 10);
+  return Array.from({ length: count }, () => null);
+}
+
+// ===== Test 30: Random walks =====
+test.describe('Test 30: Random walk', () => {
+  // Worst case: several 30s timeouts + up to 7 games + a ~120s game disconnect
+  test.describe.configure({ timeout: 900000 });
+
+  for (const [i, pinnedSeed] of walkSeeds().entries()) {
+    const title = pinnedSeed === null ? `#${i + 1}` : `seed=${pinnedSeed}`;
+
+    test(`[Test 30] Random walk ${title}`, async ({ duelPair, series, shoot }) => {
+      const { p1User, p2User, player1, player2 } = duelPair;
+      const seed = pinnedSeed ?? Math.floor(Math.random() * 1_000_000);
+      console.log(`[Test 30] ${title}: seed=${seed} (replay: WALK_SEEDS=${seed})`);
+      test.info().annotations.push({ type: 'walk-seed', description: String(seed) });
+
+      await test.step(`Random walk (seed=${seed})`, async () => {
+        const record = await runRandomWalk(
+          { player1, player2, p1Username: p1User.username, p2Username: p2User.username },
+          series.id,
+          seed,
+          { screenshot: shoot },
+        );
+        await test.info().attach('walk', {
+          body: JSON.stringify(record, null, 2),
+          contentType: 'application/json',
+        });
+      });
+    });
+  }
+});
@@ -0,0 +1,163 @@
+import { test, expect } from '../helpers/fixtures';
+import { testScenarios } from '../helpers/scenarios';
+import { executeSeriesResult, parseSeriesResult } from '../helpers/series';
+import { scoringResult } from '../helpers/game-outcome';
+import { SeriesApiClient, SeriesStatus, playerIndexOf, type PlayerIndex } from '../helpers/series-api';
+import { applyStep, createRng, initialWalkState, syncPools, type Rng, type WalkState } from '../helpers/series-model';
+import {
+  SeriesReferee,
+  formatSeriesResult,
+  gameWinner,
+  randomSeriesResult,
+  POOL_PER_PLAYER,
+  REGULAR_GAMES,
+  type RefereeGame,
+  type RefereeVerdict,
+} from '../helpers/series-referee';
+
+/**
+ * Series Referee Property Tests
+ *
+ * Test 40 checks the referee (helpers/series-referee.ts) against the rules and
+ * against the state machine model on generated result sequences - no browser.
+ * Test 41 plays generated sequences nobody hand-wrote through
+ * executeSeriesResult and replays the Series API snapshot through the referee
+ * (status, winner, scores, who selected each opening).
+ *
+ * Without REFEREE_SEEDS each Test 41 run draws its seed when it runs (titles
+ * must be the same in every worker process). The seed is logged and kept as
+ * the `referee-seed` annotation; reproduce a failure with it:
+ *   REFEREE_SEEDS=1234 npx playwright test series-referee
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 40 | - | - | 200 generated sequences + matrix rows: referee rules, model agreement |
+ * | 41 | (lease) | (lease) | N generated sequences played via UI (REFEREE_SEEDS or REFEREE_COUNT, default 1) |
+ */
+
+const PROPERTY_RUNS = 200;
+
+/** Pinned seeds (REFEREE_SEEDS), or null per run = draw the seed at run time */
+function refereeSeeds(): Array<number | null> {
+  if (process.env.REFEREE_SEEDS) {
+    return process.env.REFEREE_SEEDS.split(',').map(s => parseInt(s.trim(), 10));
+  }
+  const count = parseInt(process.env.REFEREE_COUNT || '1', 10);
+  return Array.from({ length: count }, () => null);
+}
+
+/**
+ * Play `games` against simulated pools (random openings drawn from a random
+ * non-empty pool, like the server's RandomSelecting) and judge after each game.
+ */
+function simulate(games: RefereeGame[], rng: Rng): Array<{ verdict: RefereeVerdict; pools: [number, number] }> {
+  const pools: [number, number] = [POOL_PER_PLAYER, POOL_PER_PLAYER];
+  const drawRandom = () => {
+    const options = ([0, 1] as const).filter(i => pools[i] > 0);
+    pools[options[Math.floor(rng() * options.length)]]--;
+  };
+
+  drawRandom(); // game 1
+  return games.map((_, i) => {
+    const verdict = SeriesReferee.judge(games.slice(0, i + 1), [...pools]);
+    const after: [number, number] = [...pools];
+    if (verdict.nextPhase === 'Selecting') pools[verdict.selector!]--;
+    else if (verdict.nextPhase === 'RandomSelecting') drawRandom();
+    return { verdict, pools: after };
+  });
+}
+
+/** Same games through series-model.ts: game → resting (→ selecting) */
+function modelOutcome(games: RefereeGame[], poolsAfter: Array<[number, number]>): WalkState {
+  let state: WalkState = { ...initialWalkState(), phase: 'Playing', games: 1 };
+  games.forEach((game, i) => {
+    state = applyStep(state, { kind: 'game', outcome: scoringResult(game) });
+    state = applyStep(syncPools(state, poolsAfter[i]), { kind: 'resting', behavior: 'confirm' });
+    if (state.phase === 'Selecting') state = applyStep(state, { kind: 'selecting', behavior: 'select' });
+  });
+  return state;
+}
+
+// ===== Test 40: Referee properties (no browser) =====
+test.describe('Test 40: Series referee properties', () => {
+  test('[Test 40] Hand-written matrix rows end exactly on their last game', () => {
+    for (const { id, seriesResult } of testScenarios) {
+      const games = parseSeriesResult(seriesResult);
+      expect(formatSeriesResult(games), `Test ${id}`).toBe(seriesResult);
+      const steps = simulate(games, createRng(id));
+      steps.slice(0, -1).forEach(({ verdict }) => expect(verdict.status, `Test ${id}`).toBe(SeriesStatus.Started));
+      expect(steps[steps.length - 1].verdict.status, `Test ${id}: ${seriesResult}`).toBe(SeriesStatus.Finished);
+    }
+  });
+
+  test(`[Test 40] ${PROPERTY_RUNS} generated sequences follow the rules`, () => {
+    for (let seed = 1; seed <= PROPERTY_RUNS; seed++) {
+      const rng = createRng(seed);
+      const games = randomSeriesResult(rng);
+      const label = `seed=${seed}: ${formatSeriesResult(games)}`;
+      const steps = simulate(games, rng);
+      const final = steps[steps.length - 1].verdict;
+
+      expect(games.length, label).toBeLessThanOrEqual(2 * POOL_PER_PLAYER);
+      expect(final.status, label).toBe(SeriesStatus.Finished);
+      expect(final.scores[0] + final.scores[1], label).toBe(games.length);
+
+      steps.forEach(({ verdict }, i) => {
+        if (i < steps.length - 1) expect(verdict.status, `${label} after game ${i + 1}`).toBe(SeriesStatus.Started);
+        expect(verdict.suddenDeath, label).toBe(verdict.status === SeriesStatus.Started && i + 1 >= REGULAR_GAMES);
+        if (verdict.status === SeriesStatus.Finished) return;
+        const winner = gameWinner(games[i]);
+        expect(verdict.nextPhase, label).toBe(winner === null ? 'RandomSelecting' : 'Selecting');
+        expect(verdict.selector, label).toBe(winner === null ? null : 1 - winner);
+      });
+
+      if (final.winner === null) {
+        // Series draw only by pool exhaustion
+        expect(games.length, label).toBe(2 * POOL_PER_PLAYER);
+        expect(final.scores[0], label).toBe(final.scores[1]);
+      } else {
+        expect(final.scores[final.winner], label).toBeGreaterThanOrEqual(2.5);
+        expect(final.scores[final.winner], label).toBeGreaterThan(final.scores[1 - final.winner]);
+      }
+
+      const model = modelOutcome(games, steps.map(s => s.pools));
+      expect(model.phase, `${label} (model)`).toBe('Finished');
+      expect(model.winner, `${label} (model)`).toBe(final.winner);
+      expect(model.scores, `${label} (model)`).toEqual(final.scores);
+    }
+  });
+});
+
+// ===== Test 41: Generated sequences vs the server =====
+test.describe('Test 41: Series referee vs Series API', () => {
+  // Up to 6 games: 30s per game (resting + selecting/roulette + showcase) on top of the setup, as in the matrix
+  test.describe.configure({ timeout: 60000 + 2 * POOL_PER_PLAYER * 30000 });
+  test.use({ seriesPhase: 'game' });
+
+  for (const [i, pinnedSeed] of refereeSeeds().entries()) {
+    const title = pinnedSeed === null ? `#${i + 1}` : `seed=${pinnedSeed}`;
+
+    test(`[Test 41] Generated sequence ${title}`, async ({ duelPair, series, shoot }) => {
+      const { p1User, p2User, player1, player2 } = duelPair;
+      const seed = pinnedSeed ?? Math.floor(Math.random() * 1_000_000);
+      const games = randomSeriesResult(createRng(seed));
+      const seriesResult = formatSeriesResult(games);
+      console.log(`[Test 41] ${title}: seed=${seed} → ${seriesResult} (replay: REFEREE_SEEDS=${seed})`);
+      test.info().annotations.push({ type: 'referee-seed', description: `${seed}: ${seriesResult}` });
+
+      await test.step(`Execute series: ${seriesResult}`, async () => {
+        await executeSeriesResult(player1, player2, p1User.username, p2User.username, seriesResult, series.id, shoot);
+      });
+
+      await test.step('Replay the Series API snapshot through the referee', async () => {
+        const snapshot = await SeriesApiClient.for(player1).get(series.id);
+        const p1Index = playerIndexOf(snapshot, p1User.username) as PlayerIndex;
+        expect(p1Index).not.toBeNull();
+        expect(snapshot.games.length).toBe(games.length);
+
+        const diffs = SeriesReferee.diffAgainstSnapshot(snapshot, p1Index);
+        expect(diffs, `seed=${seed}: ${seriesResult}`).toEqual([]);
+      });
+    });
+  }
+});
@@ -0,0 +1,55 @@
+import { test } from '../helpers/fixtures';
+import { completeBanPickPhase, executeSeriesResult, waitForFinishedPage } from '../helpers/series';
+import { VISUAL_PROJECT, expectSeriesVisual, expectVisualBaselines, withVisualBaselines } from '../helpers/visual';
+
+/**
+ * Series Visual Regression E2E Test
+ *
+ * Plays one series through every series surface and compares P1's view of
+ * each against the baselines in `series-visual.spec.ts-snapshots/`
+ * (helpers/visual.ts masks timers, countdowns, usernames and random openings).
+ * The opening draw sends game 2 through RandomSelecting (roulette + showcase).
+ *
+ * Baselines are kept for the chromium project only; other projects skip. A
+ * missing baseline fails the test up front - record the set on the reference
+ * stack and commit it:
+ *
+ *   npm run test:visual:update   # first recording, or after an intended UI change
+ *
+ * | # | P1 | P2 | Scenario |
+ * |---|----|----|----------|
+ * | 37 | (lease) | (lease) | ½ - 1 - 1 → pick, ban, resting, roulette, showcase, finished (desktop + 320px), chromium |
+ */
+
+const MOBILE_VIEWPORT = { width: 320, height: 568 };
+const BASELINES = ['pick', 'ban', 'resting', 'roulette', 'showcase', 'finished', 'finished-mobile'];
+
+test.describe('Test 37: Visual regression', () => {
+  test.describe.configure({ timeout: 240000 });
+  test.skip(({ browserName, isMobile }) => browserName !== VISUAL_PROJECT || isMobile, `Baselines are kept for ${VISUAL_PROJECT} only`);
+
+  test('[Test 37] Series pages match their baselines', async ({ duelPair, series, shoot }, testInfo) => {
+    expectVisualBaselines(testInfo, BASELINES);
+    const { p1User, p2User, player1, player2 } = duelPair;
+    // Every P1 screenshot of a series surface is also compared (first one per surface)
+    const visualShoot = withVisualBaselines(shoot, player1);
+
+    await test.step('Pick/Ban (pick, ban)', async () => {
+      await completeBanPickPhase(player1, player2, undefined, visualShoot);
+    });
+
+    await test.step('Play ½ - 1 - 1 (resting, roulette, showcase)', async () => {
+      await executeSeriesResult(player1, player2, p1User.username, p2User.username, '1/2 - 1 - 1', series.id, visualShoot);
+    });
+
+    await test.step('Finished page (desktop + mobile)', async () => {
+      await waitForFinishedPage(player1, series.id, 30000);
+      await expectSeriesVisual(player1, 'finished');
+
+      await player1.setViewportSize(MOBILE_VIEWPORT);
+      await player1.waitForTimeout(500);
+      await expectSeriesVisual(player1, 'finished', 'mobile');
+      await shoot('finished-mobile', player1);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Reporter, FullConfig, TestCase, TestResult } from '@playwright/test/reporter';
+import { parseTimelineEvents, TimelineEvent, TimelineLane } from './helpers/timeline';
+
+/**
+ * Series Timeline Reporter
+ *
+ * Collects the `[timeline]` events helpers print (helpers/timeline.ts) and
+ * writes one HTML page per test: a P1 | series | P2 swimlane ordered by time,
+ * with each lane shaded by its current phase and the test's screenshots shown
+ * where they were taken. When a test fails, the last event of each lane is
+ * highlighted - that is where the series stalled.
+ *
+ *   npx playwright test series-resting
+ *   open timeline-report/index.html
+ */
+
+interface TimelineReporterOptions {
+  outputFolder?: string;
+}
+
+interface Screenshot {
+  name: string;
+  file: string; // relative to the test's page
+}
+
+const LANES: TimelineLane[] = ['P1', 'series', 'P2'];
+
+const PHASE_COLORS: Record<string, string> = {
+  pick: '#e3f2fd',
+  ban: '#fce4ec',
+  selecting: '#fff8e1',
+  randomselecting: '#f3e5f5',
+  showcase: '#ede7f6',
+  resting: '#e8f5e9',
+  game: '#f5f5f5',
+  finished: '#eceff1',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function slugify(text: string): string {
+  return text.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 80).toLowerCase();
+}
+
+/** Phase key used for lane shading ('Pick Phase' → pick, game-start → game) */
+function phaseKey(event: TimelineEvent): string | null {
+  if (event.kind === 'game-start') return 'game';
+  if (event.kind !== 'phase') return null;
+  const name = event.detail.toLowerCase().replace(/\s+phase$/, '').replace(/\s+/g, '');
+  return name in PHASE_COLORS ? name : null;
+}
+
+class TimelineReporter implements Reporter {
+  private outputFolder: string;
+  private readonly events = new Map<string, TimelineEvent[]>();
+  private readonly pages: Array<{ title: string; file: string; status: string; events: number }> = [];
+
+  constructor(private readonly options: TimelineReporterOptions = {}) {
+    this.outputFolder = path.resolve(options.outputFolder ?? 'timeline-report');
+  }
+
+  onBegin(config: FullConfig): void {
+    // Relative to the config file, like the html reporter's outputFolder
+    if (config.configFile) this.outputFolder = path.resolve(path.dirname(config.configFile), this.options.outputFolder ?? 'timeline-report');
+    fs.rmSync(this.outputFolder, { recursive: true, force: true });
+    fs.mkdirSync(this.outputFolder, { recursive: true });
+  }
+
+  onStdOut(chunk: string | Buffer, test?: TestCase, result?: TestResult): void {
+    if (!test || !result) return;
+    const parsed = parseTimelineEvents(chunk.toString());
+    if (parsed.length === 0) return;
+
+    const key = `${test.id}#${result.retry}`;
+    const list = this.events.get(key) ?? [];
+    list.push(...parsed);
+    this.events.set(key, list);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const key = `${test.id}#${result.retry}`;
+    const events = (this.events.get(key) ?? []).sort((a, b) => a.at - b.at);
+    this.events.delete(key);
+    if (events.length === 0) return;
+
+    const dir = `${slugify(test.titlePath().slice(1).join(' '))}${result.retry ? `-retry${result.retry}` : ''}`;
+    fs.mkdirSync(path.join(this.outputFolder, dir), { recursive: true });
+    const screenshots = this.copyScreenshots(result, dir);
+
+    fs.writeFileSync(path.join(this.outputFolder, dir, 'index.html'), this.renderTest(test, result, events, screenshots));
+    this.pages.push({ title: test.title, file: `${dir}/index.html`, status: result.status, events: events.length });
+  }
+
+  onEnd(): void {
+    if (this.pages.length === 0) return;
+    const rows = this.pages
+      .map(p => `<tr class="${p.status}"><td>${escapeHtml(p.status)}</td><td><a href="${p.file}">${escapeHtml(p.title)}</a></td><td>${p.events}</td></tr>`)
+      .join('\n');
+    fs.writeFileSync(path.join(this.outputFolder, 'index.html'), page('Series timelines', `
+<h1>Series timelines</h1>
+<table class="index"><tr><th>Status</th><th>Test</th><th>Events</th></tr>
+${rows}
+</table>`));
+    console.log(`[timeline-reporter] ${this.pages.length} timeline(s) → ${path.relative(process.cwd(), this.outputFolder)}/index.html`);
+  }
+
+  /** Copy image attachments next to the test's page */
+  private copyScreenshots(result: TestResult, dir: string): Screenshot[] {
+    return result.attachments
+      .filter(a => a.contentType === 'image/png' && (a.body || a.path))
+      .map((a, i) => {
+        const file = `${String(i).padStart(2, '0')}-${slugify(a.name)}.png`;
+        const target = path.join(this.outputFolder, dir, file);
+        if (a.body) fs.writeFileSync(target, a.body);
+        else if (a.path && fs.existsSync(a.path)) fs.copyFileSync(a.path, target);
+        return { name: a.name, file };
+      });
+  }
+
+  private renderTest(test: TestCase, result: TestResult, events: TimelineEvent[], screenshots: Screenshot[]): string {
+    const start = result.startTime.getTime();
+    const failed = result.status !== 'passed' && result.status !== 'skipped';
+    const lastIndex = new Map<TimelineLane, number>();
+    events.forEach((e, i) => lastIndex.set(e.lane, i));
+
+    const placed = new Set<string>();
+    const phase: Record<TimelineLane, string | null> = { P1: null, series: null, P2: null };
+
+    const rows = events.map((event, i) => {
+      phase[event.lane] = phaseKey(event) ?? phase[event.lane];
+      const cells = LANES.map(lane => {
+        const shade = phase[lane] ? ` style="background:${PHASE_COLORS[phase[lane]!]}"` : '';
+        if (lane !== event.lane) return `<td${shade}></td>`;
+
+        const stalled = failed && lastIndex.get(lane) === i ? ' stalled' : '';
+        let body = `<span class="kind ${event.kind}">${event.kind}</span> ${escapeHtml(event.detail)}`;
+        if (event.kind === 'screenshot') {
+          const shot = screenshots.find(s => s.name === event.detail);
+          if (shot) {
+            placed.add(shot.name);
+            body += `<br><a href="${shot.file}"><img src="${shot.file}" loading="lazy"></a>`;
+          }
+        }
+        return `<td class="event${stalled}"${shade}>${body}</td>`;
+      });
+      return `<tr><td class="time">+${((event.at - start) / 1000).toFixed(1)}s</td>${cells.join('')}</tr>`;
+    });
+
+    const end = `<tr class="end ${result.status}"><td class="time">+${(result.duration / 1000).toFixed(1)}s</td>` +
+      `<td colspan="3">${escapeHtml(result.status)}${result.error?.message ? `: <pre>${escapeHtml(result.error.message)}</pre>` : ''}</td></tr>`;
+
+    const unplaced = screenshots.filter(s => !placed.has(s.name));
+    const gallery = unplaced.length === 0 ? '' : `
+<h2>Screenshots</h2>
+<div class="gallery">${unplaced.map(s => `<figure><a href="${s.file}"><img src="${s.file}" loading="lazy"></a><figcaption>${escapeHtml(s.name)}</figcaption></figure>`).join('')}</div>`;
+
+    return page(test.title, `
+<p><a href="../index.html">← all timelines</a></p>
+<h1>${escapeHtml(test.title)}</h1>
+<p>${escapeHtml(path.basename(test.location.file))} · ${escapeHtml(result.status)} · ${(result.duration / 1000).toFixed(1)}s</p>
+<table class="timeline">
+<tr><th></th>${LANES.map(l => `<th>${l}</th>`).join('')}</tr>
+${rows.join('\n')}
+${end}
+</table>${gallery}`);
+  }
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+  body { font: 13px system-ui, sans-serif; margin: 20px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+  table.timeline td:not(.time) { width: 32%; }
+  td.time { color: #888; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  td.stalled { outline: 3px solid #d32f2f; outline-offset: -3px; }
+  .kind { display: inline-block; padding: 0 4px; border-radius: 3px; background: #ddd; font-size: 11px; }
+  .kind.phase { background: #90caf9; } .kind.confirm { background: #a5d6a7; } .kind.cancel { background: #ffcc80; }
+  .kind.countdown { background: #ce93d8; } .kind.game-start, .kind.game-end { background: #b0bec5; }
+  .kind.resting { background: #80cbc4; } .kind.note { background: #fff59d; }
+  img { max-width: 280px; margin-top: 4px; border: 1px solid #ccc; }
+  tr.end td { font-weight: bold; } tr.failed td, tr.timedOut td, tr.interrupted td { color: #d32f2f; }
+  pre { white-space: pre-wrap; font-weight: normal; }
+  .gallery { display: flex; flex-wrap: wrap; gap: 8px; }
+</style></head>
+<body>${body}</body></html>`;
+}
+
+export default TimelineReporter;